@@ -0,0 +1,12 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+
+export interface AIGatewayOptions {
+    configFile?: string; // Defaults to AI_CONFIG_FILE or .ai-gateway/config.json
+}
+
+export const DEFAULT_CONFIG_FILE: string;
+
+export function createAIGateway(options?: AIGatewayOptions): (req: IncomingMessage, res: ServerResponse, next?: () => void) => Promise<void>;
+
+export function aiGatewayPlugin(options?: AIGatewayOptions): Plugin;
@@ -0,0 +1,394 @@
+/**
+ * AI gateway: serves the /api/ai endpoints the reader calls and forwards
+ * generation requests to the configured provider. API keys are stored in a
+ * JSON file on the server and never sent back to the browser.
+ *
+ * Endpoints (JSON over HTTP):
+ *
+ *   GET  /api/ai/config
+ *        -> { provider, baseUrl, model, hasKey }
+ *
+ *   POST /api/ai/config   { provider, apiKey, baseUrl, model }
+ *        -> { provider, baseUrl, model, hasKey }   an empty apiKey keeps the stored key
+ *
+ *   POST /api/ai/models   { provider, apiKey, baseUrl }
+ *        -> string[]   models the provider offers, using the stored key if apiKey is empty
+ *
+ * The stored key is only reused while provider and base URL stay the same:
+ * switching provider clears it, and a new base URL needs the key again. Bodies
+ * must be sent as application/json, which browsers only allow cross-origin
+ * after a CORS preflight.
+ *
+ *   POST /api/ai/generate { system, prompt, json? }
+ *        -> { text }
+ *
+ * Providers: the OpenAI-compatible APIs (openai, deepseek, qwen, grok),
+ * anthropic, gemini and mock. The mock provider needs no key and answers
+ * deterministically, so the AI features can be developed and tested offline.
+ *
+ * Used by the Vite dev server (aiGatewayPlugin in vite.config.ts) and by the
+ * standalone server in scripts/ai-server.js.
+ *   AI_CONFIG_FILE  JSON file holding the configuration (default .ai-gateway/config.json)
+ *   AI_PROVIDER, AI_API_KEY, AI_BASE_URL, AI_MODEL  override the stored configuration
+ */
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_CONFIG_FILE = path.join(__dirname, '../.ai-gateway/config.json');
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_OUTPUT_TOKENS = 4096;
+
+// Same presets as AISettingsModal
+const PROVIDER_DEFAULTS = {
+    openai: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o' },
+    anthropic: { baseUrl: 'https://api.anthropic.com', model: 'claude-3-opus-20240229' },
+    deepseek: { baseUrl: 'https://api.deepseek.com', model: 'deepseek-chat' },
+    qwen: { baseUrl: 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1', model: 'qwen-plus' },
+    gemini: { baseUrl: 'https://generativelanguage.googleapis.com', model: 'gemini-1.5-flash' },
+    grok: { baseUrl: 'https://api.x.ai/v1', model: 'grok-beta' },
+    mock: { baseUrl: '', model: 'mock-1' }
+};
+
+class GatewayError extends Error {
+    constructor(status, message) {
+        super(message);
+        this.status = status;
+    }
+}
+
+// --- Configuration ---
+
+function loadConfig(configFile) {
+    let stored = {};
+    if (fs.existsSync(configFile)) {
+        try {
+            stored = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+        } catch (e) {
+            console.error(`❌ Could not read ${configFile}:`, e.message);
+        }
+    }
+    const env = process.env;
+    return {
+        provider: env.AI_PROVIDER || stored.provider || 'openai',
+        apiKey: env.AI_API_KEY || stored.apiKey || '',
+        baseUrl: env.AI_BASE_URL || stored.baseUrl || '',
+        model: env.AI_MODEL || stored.model || ''
+    };
+}
+
+// Write to a temp file first so a crash never leaves a truncated config. Only
+// the owner can read it, it holds the API key.
+function saveConfig(configFile, config) {
+    fs.mkdirSync(path.dirname(configFile), { recursive: true });
+    const tmp = `${configFile}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(config, null, 2), { mode: 0o600 });
+    fs.renameSync(tmp, configFile);
+}
+
+// Fill in the provider's default URL and model. The stored key is only reused
+// for the stored provider and base URL, so a request can never send it elsewhere.
+function resolveConfig(requested, stored) {
+    const provider = requested.provider || stored.provider;
+    if (!PROVIDER_DEFAULTS[provider]) throw new GatewayError(400, `Unknown provider "${provider}"`);
+    const defaults = PROVIDER_DEFAULTS[provider];
+    const sameProvider = provider === stored.provider;
+    const baseUrl = (requested.baseUrl || (sameProvider && stored.baseUrl) || defaults.baseUrl).replace(/\/+$/, '');
+    const storedBaseUrl = (stored.baseUrl || PROVIDER_DEFAULTS[stored.provider]?.baseUrl || '').replace(/\/+$/, '');
+
+    let apiKey = requested.apiKey || '';
+    if (!apiKey && sameProvider) {
+        if (baseUrl !== storedBaseUrl && stored.apiKey) {
+            throw new GatewayError(400, 'Enter the API key again to use a different base URL');
+        }
+        apiKey = stored.apiKey;
+    }
+    return {
+        provider,
+        apiKey,
+        baseUrl,
+        model: requested.model || (sameProvider && stored.model) || defaults.model
+    };
+}
+
+// What the browser may see of the configuration
+function publicConfig(config) {
+    return {
+        provider: config.provider,
+        baseUrl: config.baseUrl,
+        model: config.model,
+        hasKey: Boolean(config.apiKey) || config.provider === 'mock'
+    };
+}
+
+// --- Provider adapters ---
+
+async function request(url, options) {
+    let response;
+    try {
+        response = await fetch(url, options);
+    } catch (e) {
+        throw new GatewayError(502, `Could not reach ${new URL(url).host}: ${e.message}`);
+    }
+    const body = await response.text();
+    let data;
+    try {
+        data = JSON.parse(body);
+    } catch {
+        data = undefined;
+    }
+    if (!response.ok) {
+        const message = data?.error?.message ?? data?.error ?? body.slice(0, 200);
+        throw new GatewayError(502, `Provider responded with ${response.status}: ${typeof message === 'string' ? message : JSON.stringify(message)}`);
+    }
+    if (data === undefined) throw new GatewayError(502, 'Provider sent no JSON');
+    return data;
+}
+
+function requireKey(config) {
+    if (!config.apiKey) throw new GatewayError(400, `No API key configured for ${config.provider}`);
+}
+
+const openAICompatible = {
+    async listModels(config) {
+        requireKey(config);
+        const data = await request(`${config.baseUrl}/models`, {
+            headers: { Authorization: `Bearer ${config.apiKey}` }
+        });
+        return (data.data ?? []).map(model => model.id);
+    },
+    async generate(config, { system, prompt, json }) {
+        requireKey(config);
+        const data = await request(`${config.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${config.apiKey}` },
+            body: JSON.stringify({
+                model: config.model,
+                messages: [
+                    { role: 'system', content: system },
+                    { role: 'user', content: prompt }
+                ],
+                ...(json && { response_format: { type: 'json_object' } })
+            })
+        });
+        return data.choices?.[0]?.message?.content ?? '';
+    }
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const anthropic = {
+    async listModels(config) {
+        requireKey(config);
+        const data = await request(`${config.baseUrl}/v1/models`, {
+            headers: { 'x-api-key': config.apiKey, 'anthropic-version': ANTHROPIC_VERSION }
+        });
+        return (data.data ?? []).map(model => model.id);
+    },
+    // No JSON mode: the prompts already ask for JSON only
+    async generate(config, { system, prompt }) {
+        requireKey(config);
+        const data = await request(`${config.baseUrl}/v1/messages`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'x-api-key': config.apiKey, 'anthropic-version': ANTHROPIC_VERSION },
+            body: JSON.stringify({
+                model: config.model,
+                max_tokens: MAX_OUTPUT_TOKENS,
+                system,
+                messages: [{ role: 'user', content: prompt }]
+            })
+        });
+        return (data.content ?? []).filter(block => block.type === 'text').map(block => block.text).join('');
+    }
+};
+
+const gemini = {
+    async listModels(config) {
+        requireKey(config);
+        const data = await request(`${config.baseUrl}/v1beta/models`, {
+            headers: { 'x-goog-api-key': config.apiKey }
+        });
+        return (data.models ?? [])
+            .filter(model => model.supportedGenerationMethods?.includes('generateContent'))
+            .map(model => model.name.replace(/^models\//, ''));
+    },
+    async generate(config, { system, prompt, json }) {
+        requireKey(config);
+        const data = await request(`${config.baseUrl}/v1beta/models/${encodeURIComponent(config.model)}:generateContent`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'x-goog-api-key': config.apiKey },
+            body: JSON.stringify({
+                systemInstruction: { parts: [{ text: system }] },
+                contents: [{ role: 'user', parts: [{ text: prompt }] }],
+                generationConfig: {
+                    maxOutputTokens: MAX_OUTPUT_TOKENS,
+                    ...(json && { responseMimeType: 'application/json' })
+                }
+            })
+        });
+        return (data.candidates?.[0]?.content?.parts ?? []).map(part => part.text ?? '').join('');
+    }
+};
+
+// --- Mock provider ---
+
+// Feedback in the shape of WRITING_FEEDBACK_PROMPT. Flags repeated words and
+// sentences that start in lower case, so there is always something to show.
+function mockWritingFeedback(prompt) {
+    const text = (prompt.split("### Learner's text")[1] ?? '').trim();
+    const annotations = [];
+    let corrected = text;
+
+    for (const match of text.matchAll(/\b(\p{L}+) \1\b/giu)) {
+        annotations.push({ original: match[0], correction: match[1], category: 'other', explanation: 'The word is repeated.' });
+        corrected = corrected.replace(match[0], match[1]);
+    }
+    for (const match of text.matchAll(/(?:^|[.!?]\s+)(\p{Ll}\p{L}*)/gu)) {
+        const word = match[1];
+        const fixed = word[0].toUpperCase() + word.slice(1);
+        annotations.push({ original: word, correction: fixed, category: 'spelling', explanation: 'A sentence starts with a capital letter.' });
+        corrected = corrected.replace(match[0], match[0].replace(word, fixed));
+    }
+    // The position in the text decides the order, as the prompt asks
+    annotations.sort((a, b) => text.indexOf(a.original) - text.indexOf(b.original));
+
+    const band = annotations.length === 0 ? 'A' : annotations.length <= 3 ? 'B' : 'C';
+    return JSON.stringify({
+        correctedText: corrected,
+        annotations,
+        criteria: [
+            { criterion: 'content', band: 'B', comment: 'Mock rating.' },
+            { criterion: 'communication', band: 'B', comment: 'Mock rating.' },
+            { criterion: 'accuracy', band, comment: `${annotations.length} mistakes found by the mock provider.` }
+        ],
+        band,
+        summary: 'This feedback comes from the mock AI provider.'
+    });
+}
+
+// Explanation in the shape of EXPLAIN_MISTAKE_PROMPT, naming both answers
+function mockMistakeExplanation(prompt) {
+    const section = name => (prompt.split(`### ${name}`)[1] ?? '').split('###')[0].trim();
+    return `Mock explanation: "${section('Correct answer')}" is correct here, not "${section("Learner's answer")}".`;
+}
+
+// Answers depend only on the request, never on time or randomness
+const mock = {
+    async listModels() {
+        return ['mock-1'];
+    },
+    async generate(_config, { system, prompt, json }) {
+        if (system.includes('"correctedText"')) return mockWritingFeedback(prompt);
+        if (prompt.includes("### Learner's answer")) return mockMistakeExplanation(prompt);
+        if (json) return JSON.stringify({ text: `Mock reply to: ${prompt.trim().slice(0, 200)}` });
+        return `<Quiz answer="1">\nMock exercise for: ${prompt.trim().split('\n')[0].slice(0, 200)}\n<Option>\nrichtig\n</Option>\n<Option>\nfalsch\n</Option>\n</Quiz>`;
+    }
+};
+
+const ADAPTERS = {
+    openai: openAICompatible,
+    deepseek: openAICompatible,
+    qwen: openAICompatible,
+    grok: openAICompatible,
+    anthropic,
+    gemini,
+    mock
+};
+
+// --- HTTP ---
+
+function send(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        if (!/^application\/json\b/i.test(req.headers['content-type'] ?? '')) {
+            reject(new GatewayError(415, 'Content-Type must be application/json'));
+            return;
+        }
+        let size = 0;
+        const chunks = [];
+        req.on('data', chunk => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new GatewayError(413, 'Request body too large'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+            } catch {
+                reject(new GatewayError(400, 'Body must be JSON'));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Connect-style handler for the /api/ai endpoints; other URLs are passed to next.
+ * @param {{ configFile?: string }} options
+ */
+export function createAIGateway({ configFile = process.env.AI_CONFIG_FILE || DEFAULT_CONFIG_FILE } = {}) {
+    return async (req, res, next) => {
+        const { pathname } = new URL(req.url, 'http://localhost');
+        if (!pathname.startsWith('/api/ai/')) {
+            if (next) next();
+            else send(res, 404, { error: 'Not found' });
+            return;
+        }
+
+        try {
+            const route = `${req.method} ${pathname}`;
+            const stored = loadConfig(configFile);
+
+            if (route === 'GET /api/ai/config') {
+                return send(res, 200, publicConfig(stored));
+            }
+            if (route === 'POST /api/ai/config') {
+                const config = resolveConfig(await readBody(req), stored);
+                saveConfig(configFile, config);
+                return send(res, 200, publicConfig(config));
+            }
+            if (route === 'POST /api/ai/models') {
+                const config = resolveConfig(await readBody(req), stored);
+                return send(res, 200, await ADAPTERS[config.provider].listModels(config));
+            }
+            if (route === 'POST /api/ai/generate') {
+                const body = await readBody(req);
+                if (typeof body.system !== 'string' || typeof body.prompt !== 'string') {
+                    return send(res, 400, { error: 'Body must be { system, prompt, json? }' });
+                }
+                const config = resolveConfig({}, stored);
+                const text = await ADAPTERS[config.provider].generate(config, body);
+                return send(res, 200, { text });
+            }
+            send(res, 404, { error: 'Not found' });
+        } catch (e) {
+            if (!(e instanceof GatewayError)) console.error('❌ AI gateway:', e);
+            send(res, e instanceof GatewayError ? e.status : 500, { error: e.message });
+        }
+    };
+}
+
+// Serves the gateway from the Vite dev and preview servers
+export function aiGatewayPlugin(options) {
+    const gateway = createAIGateway(options);
+    return {
+        name: 'ai-gateway',
+        configureServer(server) {
+            server.middlewares.use(gateway);
+        },
+        configurePreviewServer(server) {
+            server.middlewares.use(gateway);
+        }
+    };
+}
@@ -0,0 +1,46 @@
+/**
+ * Standalone AI gateway, for when the reader is not served by the Vite dev
+ * server. See scripts/ai-gateway.js for the endpoints and configuration.
+ *
+ * Usage: npm run ai-server
+ *   AI_PORT             port to listen on (default 5292, where the dev proxy points)
+ *   AI_ALLOWED_ORIGINS  comma-separated origins the reader may be served from
+ *                       (default: any http://localhost, 127.0.0.1 or [::1] port)
+ */
+import http from 'http';
+import { createAIGateway } from './ai-gateway.js';
+
+const PORT = Number(process.env.AI_PORT) || 5292;
+const ALLOWED_ORIGINS = (process.env.AI_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+const LOCALHOST_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+const gateway = createAIGateway();
+
+function isAllowedOrigin(origin) {
+    return ALLOWED_ORIGINS.length > 0 ? ALLOWED_ORIGINS.includes(origin) : LOCALHOST_ORIGIN.test(origin);
+}
+
+const server = http.createServer((req, res) => {
+    // The gateway holds the API key, so only the reader's own origins may call it
+    const origin = req.headers.origin;
+    if (origin && !isAllowedOrigin(origin)) {
+        res.writeHead(403, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `Origin ${origin} is not allowed` }));
+        return;
+    }
+    if (origin) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Vary', 'Origin');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+    gateway(req, res);
+});
+
+server.listen(PORT, () => {
+    console.log(`🤖 AI gateway listening on http://localhost:${PORT}/api/ai`);
+});
@@ -0,0 +1,22 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Every lesson under a content directory with the route it is served at
+ * @returns {{ lessonPath: string, file: string }[]} Sorted by file path
+ */
+export function findLessons(dir, basePath = '') {
+    const lessons = [];
+    for (const item of fs.readdirSync(dir).sort()) {
+        const fullPath = path.join(dir, item);
+        if (fs.statSync(fullPath).isDirectory()) {
+            lessons.push(...findLessons(fullPath, path.posix.join(basePath, item)));
+        } else if (item.endsWith('.mdx')) {
+            // folder/index.mdx is served at /folder
+            const name = item === 'index.mdx' ? '' : item.replace('.mdx', '');
+            const lessonPath = '/' + path.posix.join(basePath, name).replace(/\/$/, '');
+            lessons.push({ lessonPath, file: fullPath });
+        }
+    }
+    return lessons;
+}
@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+/**
+ * Script to generate src/exerciseManifest.json: every exercise of every lesson
+ * with its type, stable ID and source position.
+ *
+ * Lessons are compiled and rendered by src/lib/exercises/buildExerciseManifest.tsx,
+ * loaded through Vite so it shares the ID code with the reader.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { runnerImport } from 'vite';
+import { findLessons } from './content-files.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const contentDir = path.join(__dirname, '../src/content');
+const outputFile = path.join(__dirname, '../src/exerciseManifest.json');
+
+const { module } = await runnerImport(path.join(__dirname, '../src/lib/exercises/buildExerciseManifest.tsx'), {
+    configFile: false,
+    logLevel: 'error'
+});
+
+console.log('📊 Building exercise manifest from MDX files...');
+const manifest = {};
+let failed = 0;
+
+for (const { lessonPath, file } of findLessons(contentDir)) {
+    try {
+        const exercises = await module.buildLessonManifest(lessonPath, fs.readFileSync(file, 'utf-8'));
+        manifest[lessonPath] = exercises;
+
+        // Exercises sharing an ID also share progress, they need distinct `id` props
+        const lines = new Map();
+        exercises.forEach(exercise => lines.set(exercise.id, [...(lines.get(exercise.id) || []), exercise.line]));
+        lines.forEach((at, id) => {
+            if (at.length > 1) console.warn(`⚠️  ${lessonPath}: ${id} is used on lines ${at.join(', ')}`);
+        });
+    } catch (e) {
+        failed++;
+        console.error(`❌ ${path.relative(process.cwd(), file)}: ${e.message}`);
+    }
+}
+
+const total = Object.values(manifest).reduce((sum, exercises) => sum + exercises.length, 0);
+console.log(`✅ Found ${Object.keys(manifest).length} lessons`);
+console.log(`📝 Total exercises: ${total}`);
+
+fs.writeFileSync(outputFile, JSON.stringify(manifest, null, 2) + '\n');
+console.log(`💾 Saved to ${outputFile}`);
+
+if (failed > 0) process.exit(1);
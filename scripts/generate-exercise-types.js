@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+
+/**
+ * Script to generate src/components/exercises/generated/exerciseProps.ts: the
+ * prop interface of every exercise from its JSON Schema in
+ * src/components/exercises/schemas/<Type>.schema.json.
+ *
+ * Each schema becomes `<Type>Props`, each entry of its $defs an interface of
+ * the same name. Props with `tsType` (children, callbacks) get that type as is.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const schemaDir = path.join(__dirname, '../src/components/exercises/schemas');
+const outputFile = path.join(__dirname, '../src/components/exercises/generated/exerciseProps.ts');
+
+const INDENT = '    ';
+
+function literal(value) {
+    return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : String(value);
+}
+
+// Quote property names that aren't identifiers
+function propertyName(name) {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name);
+}
+
+function toType(schema, depth, file) {
+    if (schema.tsType) return schema.tsType;
+    if (schema.$ref) {
+        const match = schema.$ref.match(/^#\/\$defs\/(\w+)$/);
+        if (!match) throw new Error(`${file}: only local $defs references are supported, got ${schema.$ref}`);
+        return match[1];
+    }
+    if (schema.enum) return schema.enum.map(literal).join(' | ');
+
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    return types.map(type => {
+        switch (type) {
+            case 'string': return 'string';
+            case 'number':
+            case 'integer': return 'number';
+            case 'boolean': return 'boolean';
+            case 'array': {
+                const item = schema.items ? toType(schema.items, depth, file) : 'unknown';
+                return /[ |]/.test(item) && !item.startsWith('{') ? `(${item})[]` : `${item}[]`;
+            }
+            case 'object':
+                if (schema.properties) return toObjectType(schema, depth, file);
+                if (typeof schema.additionalProperties === 'object') {
+                    return `Record<string, ${toType(schema.additionalProperties, depth, file)}>`;
+                }
+                return 'Record<string, unknown>';
+            default:
+                return 'unknown';
+        }
+    }).join(' | ');
+}
+
+function toObjectType(schema, depth, file) {
+    const required = new Set(schema.required ?? []);
+    const pad = INDENT.repeat(depth + 1);
+    const lines = Object.entries(schema.properties).map(([name, property]) => {
+        const comment = property.description ? ` // ${property.description}` : '';
+        const optional = required.has(name) ? '' : '?';
+        return `${pad}${propertyName(name)}${optional}: ${toType(property, depth + 1, file)};${comment}`;
+    });
+    return `{\n${lines.join('\n')}\n${INDENT.repeat(depth)}}`;
+}
+
+function toInterface(name, schema, file) {
+    const comment = schema.description ? `// ${schema.description}\n` : '';
+    return `${comment}export interface ${name} ${toObjectType(schema, 0, file)}\n`;
+}
+
+console.log('🧩 Generating exercise prop types from JSON Schemas...');
+
+const declarations = new Map();
+const files = fs.readdirSync(schemaDir).filter(file => file.endsWith('.schema.json')).sort();
+
+for (const file of files) {
+    const schema = JSON.parse(fs.readFileSync(path.join(schemaDir, file), 'utf-8'));
+    const type = file.replace('.schema.json', '');
+    if (schema.title !== type) throw new Error(`${file}: title must be "${type}"`);
+
+    for (const [name, definition] of Object.entries(schema.$defs ?? {})) {
+        if (declarations.has(name)) throw new Error(`${file}: $defs/${name} is also declared by ${declarations.get(name).file}`);
+        declarations.set(name, { file, code: toInterface(name, definition, file) });
+    }
+    declarations.set(`${type}Props`, { file, code: toInterface(`${type}Props`, schema, file) });
+}
+
+const body = Array.from(declarations.values()).map(declaration => declaration.code).join('\n');
+const output = [
+    '// Generated by scripts/generate-exercise-types.js from schemas/*.schema.json, do not edit.',
+    '// Run `npm run generate-types` after changing a schema.',
+    '',
+    ...(body.includes('ReactNode') ? ["import type { ReactNode } from 'react';", ''] : []),
+    body
+].join('\n');
+
+fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+fs.writeFileSync(outputFile, output);
+console.log(`✅ ${files.length} schemas, ${declarations.size} interfaces`);
+console.log(`💾 Saved to ${outputFile}`);
@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+
+/**
+ * Script to check every lesson in src/content and src/content/course.yaml for
+ * authoring mistakes, e.g. a Quiz answer pointing past its last Option.
+ *
+ * The rules live in src/lib/lint/contentRules.ts, loaded through Vite so the
+ * editor runs exactly the same checks. Exits with 1 if any error is found.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { fileURLToPath } from 'url';
+import { runnerImport } from 'vite';
+import { findLessons } from './content-files.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const contentDir = path.join(__dirname, '../src/content');
+const publicDir = path.join(__dirname, '../public');
+const courseFile = path.join(contentDir, 'course.yaml');
+
+const { module } = await runnerImport(path.join(__dirname, '../src/lib/lint/contentRules.ts'), {
+    configFile: false,
+    logLevel: 'error'
+});
+
+// Media durations come from ffprobe when it is installed; remote media and
+// missing files are skipped
+const hasFfprobe = spawnSync('ffprobe', ['-version']).error === undefined;
+if (!hasFfprobe) console.log('ℹ️  ffprobe not found, checkpoint times are not checked against media duration');
+
+function getMediaDuration(lessonFile, src) {
+    if (!hasFfprobe || /^[a-z]+:\/\//i.test(src)) return undefined;
+
+    const file = src.startsWith('/') ? path.join(publicDir, src) : path.resolve(path.dirname(lessonFile), src);
+    if (!fs.existsSync(file)) return undefined;
+
+    const result = spawnSync('ffprobe', ['-v', 'error', '-show_entries', 'format=duration', '-of', 'csv=p=0', file], { encoding: 'utf-8' });
+    const duration = parseFloat(result.stdout);
+    return Number.isFinite(duration) ? duration : undefined;
+}
+
+console.log('🔍 Linting course content...');
+let errors = 0;
+let warnings = 0;
+
+function report(file, diagnostics) {
+    const relative = path.relative(process.cwd(), file);
+    for (const d of diagnostics) {
+        if (d.severity === 'error') errors++;
+        else warnings++;
+        console.log(`${relative}:${d.line}:${d.column} ${d.severity} ${d.message} [${d.rule}]`);
+    }
+}
+
+const lessons = findLessons(contentDir);
+for (const { file } of lessons) {
+    report(file, module.lintMdx(fs.readFileSync(file, 'utf-8'), {
+        getMediaDuration: src => getMediaDuration(file, src)
+    }));
+}
+
+if (fs.existsSync(courseFile)) {
+    const lessonPaths = new Set(lessons.map(lesson => lesson.lessonPath));
+    // Course paths may be written with or without the leading slash or .mdx extension
+    const lessonExists = coursePath => lessonPaths.has('/' + coursePath.replace(/^\//, '').replace(/\.mdx$/, '').replace(/\/$/, ''));
+    report(courseFile, module.lintCourse(fs.readFileSync(courseFile, 'utf-8'), lessonExists));
+}
+
+if (errors === 0 && warnings === 0) {
+    console.log(`✅ ${lessons.length} lessons, no problems found`);
+} else {
+    console.log(`${errors > 0 ? '❌' : '⚠️ '} ${errors} errors, ${warnings} warnings in ${lessons.length} lessons`);
+}
+
+if (errors > 0) process.exit(1);
@@ -36,6 +36,7 @@ function prerender() {
 
     // Add static routes
     routes.push('/editor');
+    routes.push('/review');
 
     if (!fs.existsSync(DIST_PATH)) {
         console.error('❌ dist/ directory not found. Run build first.');
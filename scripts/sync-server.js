@@ -0,0 +1,192 @@
+/**
+ * Reference progress sync server.
+ *
+ * Protocol (JSON over HTTP, one namespace per learner id):
+ *
+ *   GET  /sync/:learnerId?since=<cursor>
+ *        -> { cursor, entries }  entries changed after `since` (0 = everything)
+ *
+ *   POST /sync/:learnerId   { entries: ExerciseProgress[] }
+ *        -> { cursor, applied }  ids of the entries that were stored
+ *
+ * Conflicts are resolved per exercise with last-write-wins on `modifiedAt`,
+ * which every local write bumps (entries from older clients fall back to
+ * `lastAttempt`): an incoming entry replaces the stored one only if it is newer.
+ * The cursor is a per-learner sequence number, so clients never depend on
+ * clock agreement between devices for pulling.
+ *
+ * Usage: npm run sync-server
+ *   SYNC_PORT             port to listen on (default 5293)
+ *   SYNC_DATA_FILE        JSON file holding all learners (default .sync-data/progress.json)
+ *   SYNC_ALLOWED_ORIGINS  comma-separated origins the reader may be served from
+ *                         (default: any http://localhost, 127.0.0.1 or [::1] port)
+ */
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const PORT = Number(process.env.SYNC_PORT) || 5293;
+const DATA_FILE = process.env.SYNC_DATA_FILE || path.join(__dirname, '../.sync-data/progress.json');
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const LEARNER_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const ALLOWED_ORIGINS = (process.env.SYNC_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+const LOCALHOST_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+function isAllowedOrigin(origin) {
+    return ALLOWED_ORIGINS.length > 0 ? ALLOWED_ORIGINS.includes(origin) : LOCALHOST_ORIGIN.test(origin);
+}
+
+// Learner and exercise ids come from requests, so they are kept in objects
+// without a prototype: "__proto__" or "constructor" must not reach built-ins.
+function createRecord(values = {}) {
+    return Object.assign(Object.create(null), values);
+}
+
+function loadData() {
+    if (!fs.existsSync(DATA_FILE)) return { learners: createRecord() };
+    try {
+        const loaded = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+        const learners = createRecord();
+        Object.entries(loaded.learners ?? {}).forEach(([learnerId, learner]) => {
+            learners[learnerId] = { seq: learner.seq, entries: createRecord(learner.entries) };
+        });
+        return { learners };
+    } catch (e) {
+        console.error(`❌ Could not read ${DATA_FILE}:`, e.message);
+        process.exit(1);
+    }
+}
+
+const data = loadData();
+
+// Write to a temp file first so a crash never leaves a truncated data file
+function saveData() {
+    fs.mkdirSync(path.dirname(DATA_FILE), { recursive: true });
+    const tmp = `${DATA_FILE}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data));
+    fs.renameSync(tmp, DATA_FILE);
+}
+
+function getLearner(learnerId) {
+    if (!data.learners[learnerId]) {
+        data.learners[learnerId] = { seq: 0, entries: createRecord() };
+    }
+    return data.learners[learnerId];
+}
+
+function isValidEntry(entry) {
+    return entry
+        && typeof entry === 'object'
+        && typeof entry.exerciseId === 'string'
+        && typeof entry.lessonPath === 'string'
+        && typeof entry.completed === 'boolean'
+        && (entry.lastAttempt === undefined || typeof entry.lastAttempt === 'number')
+        && (entry.modifiedAt === undefined || typeof entry.modifiedAt === 'number');
+}
+
+function modifiedAt(entry) {
+    return entry.modifiedAt ?? entry.lastAttempt ?? 0;
+}
+
+function pull(learnerId, since) {
+    const learner = data.learners[learnerId];
+    if (!learner) return { cursor: 0, entries: [] };
+    const entries = Object.values(learner.entries)
+        .filter(record => record.seq > since)
+        .map(record => record.entry);
+    return { cursor: learner.seq, entries };
+}
+
+function push(learnerId, entries) {
+    const learner = getLearner(learnerId);
+    const applied = [];
+
+    entries.forEach(entry => {
+        const existing = learner.entries[entry.exerciseId];
+        if (existing && modifiedAt(existing.entry) >= modifiedAt(entry)) return;
+        learner.seq++;
+        learner.entries[entry.exerciseId] = { seq: learner.seq, entry };
+        applied.push(entry.exerciseId);
+    });
+
+    if (applied.length > 0) saveData();
+    return { cursor: learner.seq, applied };
+}
+
+function send(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        let size = 0;
+        const chunks = [];
+        req.on('data', chunk => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new Error('Request body too large'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+const server = http.createServer(async (req, res) => {
+    // The reader app is usually served from another origin. The learner id is
+    // the only secret, so other sites must not be able to read or write progress.
+    const origin = req.headers.origin;
+    if (origin && !isAllowedOrigin(origin)) {
+        return send(res, 403, { error: `Origin ${origin} is not allowed` });
+    }
+    if (origin) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Vary', 'Origin');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const match = url.pathname.match(/^\/sync\/([^/]+)$/);
+    if (!match) return send(res, 404, { error: 'Not found' });
+
+    const learnerId = decodeURIComponent(match[1]);
+    if (!LEARNER_ID_PATTERN.test(learnerId)) return send(res, 400, { error: 'Invalid learner id' });
+
+    try {
+        if (req.method === 'GET') {
+            const since = Number(url.searchParams.get('since')) || 0;
+            return send(res, 200, pull(learnerId, since));
+        }
+
+        if (req.method === 'POST') {
+            const body = JSON.parse(await readBody(req));
+            if (!Array.isArray(body.entries) || !body.entries.every(isValidEntry)) {
+                return send(res, 400, { error: 'Body must be { entries: ExerciseProgress[] }' });
+            }
+            return send(res, 200, push(learnerId, body.entries));
+        }
+
+        send(res, 405, { error: 'Method not allowed' });
+    } catch (e) {
+        send(res, 400, { error: e.message });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`🔄 Progress sync server listening on http://localhost:${PORT}`);
+    console.log(`   Data file: ${DATA_FILE}`);
+});
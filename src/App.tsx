@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { BrowserRouter as Router, Routes, Route, Link, useLocation, Navigate } from 'react-router-dom';
 import { MDXComponentsProvider } from './components/MDXComponentsProvider';
 import { loadCourseStructure, type CourseStructure, type CourseItem } from './utils/contentLoader';
@@ -6,13 +6,18 @@ import { clsx } from 'clsx';
 import { Helmet, HelmetProvider } from 'react-helmet-async';
 import { SettingsProvider, useSettings } from './context/SettingsContext';
 import { ProgressProvider, useProgress } from './context/ProgressContext';
+import { ProfileProvider, useProfile } from './context/ProfileContext';
+import { ProfileSwitcher } from './components/profiles/ProfileSwitcher';
 import { NextLessonNavigation } from './components/NextLessonNavigation';
 import { SettingsModal } from './components/settings/SettingsModal';
 import { AnalyticsTracker } from './components/AnalyticsTracker';
 
-import exerciseCountsData from './exerciseCounts.json';
+import { getExerciseCounts } from './lib/exercises/exerciseManifest';
 import { ProgressBar } from './components/progress/ProgressBar';
-import { Check, Loader2 } from 'lucide-react';
+import { ReviewQueue } from './components/progress/ReviewQueue';
+import { ExamPage } from './components/exam/ExamPage';
+import { SyncStatusIndicator } from './components/progress/SyncStatusIndicator';
+import { Check, GraduationCap, Loader2, RotateCcw } from 'lucide-react';
 
 import { ToastProvider } from './context/ToastContext';
 
@@ -28,6 +33,9 @@ const normalizePath = (p: string) => {
     return s;
 };
 
+// Lesson totals from the exercise manifest generated before each build
+const exerciseCounts = getExerciseCounts();
+
 const lookupExerciseCount = (exerciseCounts: Record<string, number>, p: string): number => {
     if (!p) return 0;
     if (exerciseCounts[p]) return exerciseCounts[p];
@@ -47,6 +55,26 @@ const lookupExerciseCount = (exerciseCounts: Record<string, number>, p: string):
     return 0;
 };
 
+type LessonSummary = { path: string; exerciseCount: number; folder: string };
+
+// Helper to flatten course structure for progress calculation
+const collectLessons = (items: CourseItem[], exerciseCounts: Record<string, number>, parentFolder: string = ''): LessonSummary[] => {
+    let lessons: LessonSummary[] = [];
+    items.forEach(item => {
+        if (item.path && !item.items) {
+            lessons.push({
+                path: item.path,
+                exerciseCount: lookupExerciseCount(exerciseCounts, item.path),
+                folder: parentFolder
+            });
+        }
+        if (item.items) {
+            lessons = [...lessons, ...collectLessons(item.items, exerciseCounts, item.title)];
+        }
+    });
+    return lessons;
+};
+
 function SettingsToggle() {
     const { showHints, toggleShowHints } = useSettings();
     return (
@@ -75,13 +103,20 @@ interface SidebarItemProps {
     exerciseCounts: Record<string, number>;
 }
 
-function SidebarItem({ item, depth = 0, exerciseCounts }: SidebarItemProps) {
+// Memoized so that sidebar state changes elsewhere don't re-render the whole tree
+const SidebarItem = React.memo(function SidebarItem({ item, depth = 0, exerciseCounts }: SidebarItemProps) {
     const location = useLocation();
     const isActive = item.path && location.pathname === item.path;
     const [isOpen, setIsOpen] = useState(true);
     const hasChildren = item.items && item.items.length > 0;
     const { getFolderProgressData, getLessonProgressData } = useProgress();
 
+    // Stable per item, which also lets the folder progress selector reuse its cached result
+    const descendantLessons = useMemo(
+        () => (item.items ? collectLessons(item.items, exerciseCounts, item.title) : []),
+        [item, exerciseCounts]
+    );
+
     // Calculate progress for this item
     let progressElement = null;
 
@@ -89,22 +124,6 @@ function SidebarItem({ item, depth = 0, exerciseCounts }: SidebarItemProps) {
         // It's a lesson - progress gradient will be shown in the background
     } else if (hasChildren) {
         // It's a folder/section
-        const getDescendantLessons = (itm: CourseItem): Array<{ path: string; exerciseCount: number }> => {
-            let lessons: Array<{ path: string; exerciseCount: number }> = [];
-            if (itm.path && !itm.items) {
-                // Use robust lookup here!
-                const count = lookupExerciseCount(exerciseCounts, itm.path);
-                lessons.push({ path: itm.path, exerciseCount: count });
-            }
-            if (itm.items) {
-                itm.items.forEach(sub => {
-                    lessons = [...lessons, ...getDescendantLessons(sub)];
-                });
-            }
-            return lessons;
-        };
-
-        const descendantLessons = getDescendantLessons(item);
         const totalExercisesInFolder = descendantLessons.reduce((acc, l) => acc + l.exerciseCount, 0);
 
         if (totalExercisesInFolder > 0) {
@@ -185,7 +204,10 @@ function SidebarItem({ item, depth = 0, exerciseCounts }: SidebarItemProps) {
                                 const lessonProgress = getLessonProgressData(item.path!, count);
                                 const isComplete = lessonProgress.completedExercises === lessonProgress.totalExercises;
                                 return (
-                                    <div className="flex items-center gap-1.5 text-[11px] text-gray-500 dark:text-gray-400">
+                                    <div
+                                        className="flex items-center gap-1.5 text-[11px] text-gray-500 dark:text-gray-400"
+                                        title={lessonProgress.accuracy !== null ? `Accuracy: ${lessonProgress.accuracy}%` : undefined}
+                                    >
                                         {isComplete && <Check size={14} className="text-green-600 dark:text-green-400" />}
                                         <span>{lessonProgress.completedExercises}/{lessonProgress.totalExercises}</span>
                                     </div>
@@ -217,7 +239,7 @@ function SidebarItem({ item, depth = 0, exerciseCounts }: SidebarItemProps) {
             )}
         </div>
     );
-}
+});
 
 import { loadBundledComponent } from './utils/contentLoader';
 
@@ -282,7 +304,8 @@ function AppContent() {
 
     const [isSidebarOpen, setIsSidebarOpen] = useState(true);
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-    const { getCourseProgressData } = useProgress();
+    const { getCourseProgressData, getDueReviewsData } = useProgress();
+    const allLessons = useMemo(() => (course ? collectLessons(course.structure, exerciseCounts) : []), [course]);
 
     if (loading) {
         return (
@@ -304,32 +327,11 @@ function AppContent() {
     }
 
     // Calculate stats
-    // Note: exerciseCounts.json should be present in public/ or generated during build
-    // For ReaderApp, we assume it's available or we might need to fetch it too.
-    // For ReaderApp, we assume it's available or we might need to fetch it too.
-
-    const exerciseCounts = exerciseCountsData as Record<string, number>; // In a real reader build, this might be fetched or bundled. useProgress handles missing data gracefully.
+    // Note: lesson totals come from exerciseManifest.json, generated during build
 
-    // Helper to flatten course structure for progress calculation
-    const getAllLessons = (items: CourseItem[], parentFolder: string = ''): Array<{ path: string; exerciseCount: number; folder: string }> => {
-        let lessons: Array<{ path: string; exerciseCount: number; folder: string }> = [];
-        items.forEach(item => {
-            if (item.path && !item.items) {
-                lessons.push({
-                    path: item.path,
-                    exerciseCount: lookupExerciseCount(exerciseCounts, item.path),
-                    folder: parentFolder
-                });
-            }
-            if (item.items) {
-                lessons = [...lessons, ...getAllLessons(item.items, item.title)];
-            }
-        });
-        return lessons;
-    };
-
-    const allLessons = getAllLessons(course.structure);
     const courseProgress = getCourseProgressData(allLessons);
+    const lessonPaths = new Set(allLessons.map(l => l.path));
+    const dueReviewCount = getDueReviewsData().filter(r => lessonPaths.has(r.lessonPath)).length;
 
     const routes: Array<{ path: string; element: React.ReactNode }> = [];
     const traverse = (items: CourseItem[]) => {
@@ -400,6 +402,29 @@ function AppContent() {
                                     <ProgressBar progress={courseProgress.percentage} height="h-2" showLabel={false} color="bg-green-500" />
                                 </div>
                             )}
+                            <SyncStatusIndicator className="mt-2" />
+                            {dueReviewCount > 0 && (
+                                <Link
+                                    to="/review"
+                                    className="mt-3 flex items-center justify-between px-3 py-2 rounded-lg text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 dark:text-blue-300 dark:bg-blue-900/30 dark:hover:bg-blue-900/50 transition-colors"
+                                >
+                                    <span className="flex items-center gap-2">
+                                        <RotateCcw size={14} />
+                                        Review
+                                    </span>
+                                    <span className="text-xs">{dueReviewCount} due</span>
+                                </Link>
+                            )}
+                            {course.exams?.map(exam => (
+                                <Link
+                                    key={exam.id}
+                                    to={`/exams/${exam.id}`}
+                                    className="mt-2 flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 dark:text-gray-300 dark:bg-gray-800 dark:border-gray-700 dark:hover:bg-gray-700 transition-colors"
+                                >
+                                    <GraduationCap size={14} />
+                                    {exam.title}
+                                </Link>
+                            ))}
                         </div>
 
                         <div className="flex-1 overflow-y-auto p-4">
@@ -413,6 +438,7 @@ function AppContent() {
                         </div>
 
                         <div className="mt-auto bg-gray-50 dark:bg-gray-900">
+                            <ProfileSwitcher />
                             <SettingsToggle />
                             <div className="p-4 border-t border-gray-200 dark:border-gray-800 space-y-2">
                                 <button
@@ -454,6 +480,27 @@ function AppContent() {
                                             }
                                         />
                                     ))}
+                                    <Route
+                                        path="/review"
+                                        element={
+                                            <article className="prose dark:prose-invert max-w-none prose-headings:font-bold">
+                                                <ReviewQueue structure={course.structure} />
+                                            </article>
+                                        }
+                                    />
+                                    {course.exams?.map(exam => (
+                                        <Route
+                                            key={exam.id}
+                                            path={`/exams/${exam.id}`}
+                                            element={
+                                                <MDXComponentsProvider>
+                                                    <article className="prose dark:prose-invert max-w-none prose-headings:font-bold prose-a:text-blue-600 dark:prose-a:text-blue-400 prose-img:rounded-xl">
+                                                        <ExamPage key={exam.id} exam={exam} />
+                                                    </article>
+                                                </MDXComponentsProvider>
+                                            }
+                                        />
+                                    ))}
                                     <Route path="/table-test" element={<div />} /> {/* Dummy */}
                                     <Route path="/" element={<Navigate to={routes[0]?.path || '/'} replace />} />
                                 </Routes>
@@ -486,16 +533,27 @@ function AppContent() {
     );
 }
 
-export default function ReaderApp() {
+// Settings and progress belong to the active profile; keying by its id gives
+// every profile a fresh pair of providers when the learner switches.
+function ProfileScopedApp() {
+    const { activeProfile } = useProfile();
     return (
-        <SettingsProvider>
+        <SettingsProvider key={activeProfile.id}>
             <ProgressProvider>
-                <ToastProvider>
-                    <Router basename={import.meta.env.BASE_URL.startsWith('.') ? '/' : import.meta.env.BASE_URL}>
-                        <AppContent />
-                    </Router>
-                </ToastProvider>
+                <Router basename={import.meta.env.BASE_URL.startsWith('.') ? '/' : import.meta.env.BASE_URL}>
+                    <AppContent />
+                </Router>
             </ProgressProvider>
         </SettingsProvider>
     );
 }
+
+export default function ReaderApp() {
+    return (
+        <ToastProvider>
+            <ProfileProvider>
+                <ProfileScopedApp />
+            </ProfileProvider>
+        </ToastProvider>
+    );
+}
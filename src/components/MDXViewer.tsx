@@ -4,19 +4,7 @@ import { evaluate } from '@mdx-js/mdx';
 import remarkGfm from 'remark-gfm';
 import remarkGithubBlockquoteAlert from 'remark-github-blockquote-alert';
 import { ErrorBoundary } from './ErrorBoundary';
-import { Quiz, Option } from './exercises/Quiz';
-import { Ordering } from './exercises/Ordering';
-import { Matching } from './exercises/Matching';
-import { FillBlanks } from './exercises/FillBlanks';
-import { InlineBlanks } from './exercises/InlineBlanks';
-import { Grouping } from './exercises/Grouping';
-import { Media } from './exercises/Media';
-import { InteractiveMedia, Checkpoint } from './exercises/InteractiveMedia';
-import { Dialogue, Message } from './exercises/Dialogue';
-import { AudioPhrase } from './exercises/AudioPhrase';
-import { SpeakingChallenge } from './exercises/SpeakingChallenge';
-import { ImageLabeling } from './exercises/ImageLabeling';
-import { Flashcards } from './exercises/Flashcards';
+import { EXERCISES, getMdxComponents } from '../lib/exercises/registry';
 
 interface MDXViewerProps {
     content: string;
@@ -50,14 +38,8 @@ export const MDXViewer: React.FC<MDXViewerProps> = ({ content, className }) => {
                 };
 
                 let processedMdx = content;
-                const componentTypes = [
-                    'Quiz', 'Ordering', 'Matching', 'FillBlanks', 'Grouping',
-                    'Media', 'InlineBlanks', 'Dialogue', 'InteractiveMedia',
-                    'AudioPhrase', 'SpeakingChallenge', 'Flashcards', 'ImageLabeling'
-                ];
-
-                componentTypes.forEach(type => {
-                    processedMdx = cleanBlock(processedMdx, type);
+                EXERCISES.forEach(exercise => {
+                    processedMdx = cleanBlock(processedMdx, exercise.type);
                 });
 
                 const { default: Content } = await evaluate(processedMdx, {
@@ -76,26 +58,7 @@ export const MDXViewer: React.FC<MDXViewerProps> = ({ content, className }) => {
         compileMdx();
     }, [content]);
 
-    const components = useMemo(() => {
-        return {
-            Quiz, quiz: Quiz,
-            Ordering, ordering: Ordering,
-            Matching, matching: Matching,
-            FillBlanks, fillblanks: FillBlanks,
-            Grouping, grouping: Grouping,
-            Media, media: Media,
-            InlineBlanks, inlineblanks: InlineBlanks,
-            Option, option: Option,
-            Dialogue, dialogue: Dialogue,
-            Message, message: Message,
-            InteractiveMedia, interactivemedia: InteractiveMedia,
-            Checkpoint, checkpoint: Checkpoint,
-            AudioPhrase,
-            SpeakingChallenge,
-            Flashcards, flashcards: Flashcards,
-            ImageLabeling, imagelabeling: ImageLabeling,
-        };
-    }, []);
+    const components = useMemo(() => getMdxComponents(), []);
 
     if (error) {
         return (
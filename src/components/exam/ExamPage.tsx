@@ -0,0 +1,240 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { Clock, GraduationCap, Loader2 } from 'lucide-react';
+import { ExamSectionProvider, type ExerciseScore } from '../../context/ExamContext';
+import { useProfile } from '../../context/ProfileContext';
+import { loadBundledComponent, type ExamConfig } from '../../utils/contentLoader';
+import { scoreExam, scoreSection, DEFAULT_PASS_PERCENT, type ExamResult, type SectionResult } from '../../lib/exam/examScoring';
+import { EXAM_HISTORY_KEY, loadExamHistory, saveExamResult } from '../../lib/exam/examHistory';
+import { ExamReport } from './ExamReport';
+
+type ExamState =
+    | { phase: 'intro' }
+    | { phase: 'section'; index: number; sectionStartedAt: number; startedAt: number; results: SectionResult[] }
+    | { phase: 'report'; result: ExamResult };
+
+const formatCountdown = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+function SectionContent({ path }: { path: string }) {
+    const [Content, setContent] = useState<React.ComponentType<any> | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let mounted = true;
+        loadBundledComponent(path).then(Component => {
+            if (!mounted) return;
+            if (Component) setContent(() => Component);
+            else setError(`File not found: ${path}`);
+        });
+        return () => { mounted = false; };
+    }, [path]);
+
+    if (error) return <div className="p-8 text-red-500">Error: {error}</div>;
+    if (!Content) return <div className="p-8 flex justify-center"><Loader2 className="animate-spin" /></div>;
+    return <Content />;
+}
+
+/**
+ * A timed mock exam: the sections of the exam are shown one after another, each
+ * until its time is up or the learner moves on. Exercises give no feedback while
+ * the exam runs; the report at the end converts their scores to official points
+ * and is saved to the profile's exam history.
+ */
+export const ExamPage: React.FC<{ exam: ExamConfig }> = ({ exam }) => {
+    const { storageKey } = useProfile();
+    const historyKey = storageKey(EXAM_HISTORY_KEY);
+    const [history, setHistory] = useState<ExamResult[]>(() => loadExamHistory(historyKey).filter(r => r.examId === exam.id));
+    const [state, setState] = useState<ExamState>({ phase: 'intro' });
+    const [now, setNow] = useState(Date.now());
+
+    // Current score of every exercise in the running section
+    const scoresRef = useRef(new Map<string, ExerciseScore>());
+    const handleScore = useCallback((key: string, score: ExerciseScore | null) => {
+        if (score) scoresRef.current.set(key, score);
+        else scoresRef.current.delete(key);
+    }, []);
+
+    // Exercises that save something when the section ends, e.g. the text of a WritingTask
+    const sectionEndRef = useRef(new Set<() => void>());
+    const handleSectionEnd = useCallback((callback: () => void) => {
+        sectionEndRef.current.add(callback);
+        return () => {
+            sectionEndRef.current.delete(callback);
+        };
+    }, []);
+
+    const section = state.phase === 'section' ? exam.sections[state.index] : undefined;
+    const secondsUsed = state.phase === 'section' ? Math.floor((now - state.sectionStartedAt) / 1000) : 0;
+    const secondsLeft = section ? Math.max(0, section.minutes * 60 - secondsUsed) : 0;
+
+    const start = () => {
+        scoresRef.current.clear();
+        const startedAt = Date.now();
+        setNow(startedAt);
+        setState({ phase: 'section', index: 0, sectionStartedAt: startedAt, startedAt, results: [] });
+    };
+
+    const finishSection = useCallback((timedOut: boolean) => {
+        if (state.phase !== 'section') return;
+        const current = exam.sections[state.index];
+        sectionEndRef.current.forEach(callback => callback());
+        const finishedAt = Date.now();
+        const seconds = Math.min(Math.floor((finishedAt - state.sectionStartedAt) / 1000), current.minutes * 60);
+        const results = [
+            ...state.results,
+            scoreSection(current, Array.from(scoresRef.current.values()), seconds, timedOut, exam.passPercent)
+        ];
+        scoresRef.current.clear();
+
+        if (state.index + 1 < exam.sections.length) {
+            setNow(finishedAt);
+            setState({ ...state, index: state.index + 1, sectionStartedAt: finishedAt, results });
+            return;
+        }
+        const result = scoreExam(exam, results, state.startedAt);
+        setHistory(saveExamResult(historyKey, result).filter(r => r.examId === exam.id));
+        setState({ phase: 'report', result });
+    }, [state, exam, historyKey]);
+
+    const running = state.phase === 'section';
+
+    useEffect(() => {
+        if (!running) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [running]);
+
+    useEffect(() => {
+        if (section && secondsLeft === 0) finishSection(true);
+    }, [section, secondsLeft, finishSection]);
+
+    // Leaving the page would lose the exam
+    useEffect(() => {
+        if (!running) return;
+        const handleBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [running]);
+
+    // Every section starts at the top of the page
+    const topRef = useRef<HTMLDivElement>(null);
+    const sectionIndex = state.phase === 'section' ? state.index : -1;
+    useEffect(() => {
+        topRef.current?.scrollIntoView();
+    }, [sectionIndex]);
+
+    if (state.phase === 'section' && section) {
+        const isLast = state.index === exam.sections.length - 1;
+        return (
+            <div ref={topRef}>
+                <div className="not-prose sticky top-0 z-20 -mx-4 md:-mx-8 px-4 md:px-8 py-3 mb-6 flex items-center justify-between gap-4 bg-white/95 dark:bg-gray-900/95 border-b border-gray-200 dark:border-gray-800 backdrop-blur">
+                    <div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {exam.title} · Section {state.index + 1} of {exam.sections.length}
+                        </div>
+                        <div className="font-bold text-gray-900 dark:text-white">{section.title}</div>
+                    </div>
+                    <div className="flex items-center gap-4">
+                        <span className={clsx(
+                            "flex items-center gap-1.5 font-mono text-lg",
+                            secondsLeft < 5 * 60 ? "text-red-600 dark:text-red-400" : "text-gray-700 dark:text-gray-300"
+                        )}>
+                            <Clock size={18} />
+                            {formatCountdown(secondsLeft)}
+                        </span>
+                        <button
+                            onClick={() => finishSection(false)}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+                        >
+                            {isLast ? 'Finish exam' : 'Next section'}
+                        </button>
+                    </div>
+                </div>
+                <ExamSectionProvider key={state.index} onScore={handleScore} onSectionEnd={handleSectionEnd}>
+                    <SectionContent path={section.path} />
+                </ExamSectionProvider>
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            <h1 className="flex items-center gap-3">
+                <GraduationCap className="text-blue-600" size={28} />
+                {exam.title}
+            </h1>
+
+            {state.phase === 'report' ? (
+                <>
+                    <ExamReport result={state.result} />
+                    <button
+                        onClick={() => setState({ phase: 'intro' })}
+                        className="not-prose mt-6 px-6 py-2 bg-gray-200 text-gray-800 rounded-lg font-medium hover:bg-gray-300 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 transition-colors"
+                    >
+                        Back to overview
+                    </button>
+                </>
+            ) : (
+                <>
+                    {exam.description && <p>{exam.description}</p>}
+                    <div className="not-prose space-y-4">
+                        <table className="w-full text-sm text-left">
+                            <thead>
+                                <tr className="text-gray-500 dark:text-gray-400">
+                                    <th className="pb-2 pr-4 font-medium">Section</th>
+                                    <th className="pb-2 pr-4 font-medium">Time</th>
+                                    <th className="pb-2 font-medium">Points</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {exam.sections.map((s, index) => (
+                                    <tr key={index} className="border-t border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                                        <td className="py-2 pr-4 font-medium">{s.title}</td>
+                                        <td className="py-2 pr-4">{s.minutes} min</td>
+                                        <td className="py-2">{s.maxPoints}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                            Answers are checked at the end. You need {exam.passPercent ?? DEFAULT_PASS_PERCENT}% of the points to pass.
+                            When the time of a section is up, the next one starts.
+                        </p>
+                        <button
+                            onClick={start}
+                            className="px-6 py-2 bg-blue-600 text-white rounded-lg font-bold hover:bg-blue-700 transition-colors shadow-sm"
+                        >
+                            Start exam
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {history.length > 0 && (
+                <div className="not-prose mt-10">
+                    <h2 className="text-lg font-bold mb-3 text-gray-900 dark:text-white">Previous attempts</h2>
+                    <table className="w-full text-sm text-left">
+                        <tbody>
+                            {history.map(result => (
+                                <tr key={result.finishedAt} className="border-t border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                                    <td className="py-2 pr-4">{new Date(result.finishedAt).toLocaleString()}</td>
+                                    {result.sections.map((s, index) => (
+                                        <td key={index} className="py-2 pr-4" title={s.title}>
+                                            {s.points === null ? '–' : `${s.points}/${s.maxPoints}`}
+                                        </td>
+                                    ))}
+                                    <td className={clsx(
+                                        "py-2 font-medium",
+                                        result.passed === null ? "text-gray-500" : result.passed ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+                                    )}>
+                                        {result.points}/{result.maxPoints}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
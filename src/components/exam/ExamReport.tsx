@@ -0,0 +1,93 @@
+import React from 'react';
+import { clsx } from 'clsx';
+import { Check, X, Clock } from 'lucide-react';
+import type { ExamResult, SectionResult } from '../../lib/exam/examScoring';
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const percentOf = (points: number, maxPoints: number) => Math.round(points / maxPoints * 100);
+
+function PassBadge({ passed }: { passed: boolean | null }) {
+    if (passed === null) {
+        return <span className="px-2 py-0.5 rounded text-xs font-medium text-gray-600 bg-gray-100 dark:text-gray-400 dark:bg-gray-800">Not scored</span>;
+    }
+    return (
+        <span className={clsx(
+            "inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium",
+            passed
+                ? "text-green-700 bg-green-100 dark:text-green-400 dark:bg-green-900/30"
+                : "text-red-700 bg-red-100 dark:text-red-400 dark:bg-red-900/30"
+        )}>
+            {passed ? <Check size={12} /> : <X size={12} />}
+            {passed ? 'Passed' : 'Failed'}
+        </span>
+    );
+}
+
+function SectionRow({ section }: { section: SectionResult }) {
+    return (
+        <tr className="border-t border-gray-200 dark:border-gray-700">
+            <td className="py-3 pr-4 font-medium text-gray-800 dark:text-gray-200">{section.title}</td>
+            <td className="py-3 pr-4 text-gray-700 dark:text-gray-300">
+                {section.points === null ? '–' : `${section.points} / ${section.maxPoints}`}
+                {section.points !== null && (
+                    <span className="ml-2 text-xs text-gray-500">({section.rawScore}/{section.rawMaxScore} items)</span>
+                )}
+            </td>
+            <td className="py-3 pr-4 text-gray-500 dark:text-gray-400">
+                <span className="inline-flex items-center gap-1">
+                    <Clock size={12} />
+                    {formatDuration(section.secondsUsed)}
+                    {section.timedOut && <span className="text-xs text-orange-600 dark:text-orange-400">time up</span>}
+                </span>
+            </td>
+            <td className="py-3"><PassBadge passed={section.passed} /></td>
+        </tr>
+    );
+}
+
+// Per-section points on the official scale and the overall result of a finished exam
+export const ExamReport: React.FC<{ result: ExamResult }> = ({ result }) => {
+    return (
+        <div className="not-prose space-y-4">
+            <div className={clsx(
+                "flex items-center justify-between gap-4 p-6 rounded-xl border",
+                result.passed === null
+                    ? "border-gray-200 bg-gray-50 dark:border-gray-700 dark:bg-gray-800"
+                    : result.passed
+                        ? "border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-900/20"
+                        : "border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20"
+            )}>
+                <div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">{new Date(result.finishedAt).toLocaleString()}</div>
+                    <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                        {result.maxPoints > 0
+                            ? `${result.points} / ${result.maxPoints} points (${percentOf(result.points, result.maxPoints)}%)`
+                            : 'No scored sections'}
+                    </div>
+                </div>
+                <PassBadge passed={result.passed} />
+            </div>
+
+            <table className="w-full text-sm text-left">
+                <thead>
+                    <tr className="text-gray-500 dark:text-gray-400">
+                        <th className="pb-2 pr-4 font-medium">Section</th>
+                        <th className="pb-2 pr-4 font-medium">Points</th>
+                        <th className="pb-2 pr-4 font-medium">Time</th>
+                        <th className="pb-2 font-medium">Result</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {result.sections.map((section, index) => <SectionRow key={index} section={section} />)}
+                </tbody>
+            </table>
+
+            {result.sections.some(section => section.points === null) && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Sections without scored exercises are not part of the total.
+                </p>
+            )}
+        </div>
+    );
+};
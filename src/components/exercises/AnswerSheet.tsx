@@ -0,0 +1,58 @@
+import React from 'react';
+import { clsx } from 'clsx';
+
+export const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+interface AnswerSheetProps {
+    start: number; // Number of the first row, e.g. 31
+    columns: number; // Letters a, b, c, ... to choose from
+    marked: (number | null)[]; // Column marked in each row
+    onMark: (row: number, column: number | null) => void; // Marking the marked column again clears the row
+    solution?: number[]; // Correct column of each row, shown once the answers are checked
+}
+
+// Grid like the telc answer sheet: one row per item, one box per letter
+export const AnswerSheet: React.FC<AnswerSheetProps> = ({ start, columns, marked, onMark, solution }) => {
+    const letters = Array.from(LETTERS.slice(0, columns));
+
+    return (
+        <div className="mb-6 overflow-x-auto">
+            <table className="text-sm border-collapse">
+                <thead>
+                    <tr>
+                        <th className="pr-3" />
+                        {letters.map(letter => (
+                            <th key={letter} className="w-7 text-center font-medium text-gray-500 dark:text-gray-400">{letter}</th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {marked.map((current, row) => (
+                        <tr key={row}>
+                            <td className="pr-3 py-0.5 text-right font-bold text-gray-600 dark:text-gray-300">{start + row}</td>
+                            {letters.map((letter, column) => {
+                                const isMarked = current === column;
+                                return (
+                                    <td key={letter} className="w-7 py-0.5 text-center">
+                                        <button
+                                            onClick={() => onMark(row, isMarked ? null : column)}
+                                            disabled={solution !== undefined}
+                                            aria-label={`${start + row}: ${letter}`}
+                                            className={clsx(
+                                                "w-5 h-5 rounded-sm border transition-colors",
+                                                solution?.[row] === column ? "border-green-500 bg-green-500" :
+                                                    solution && isMarked ? "border-red-500 bg-red-500" :
+                                                        isMarked ? "border-blue-600 bg-blue-600" :
+                                                            "border-gray-300 hover:border-blue-400 dark:border-gray-600"
+                                            )}
+                                        />
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
@@ -4,18 +4,13 @@ import { clsx } from 'clsx';
 import { useSettings } from '../../context/SettingsContext';
 import { useProgress } from '../../context/ProgressContext';
 import { useLocation } from 'react-router-dom';
-import { generateStableExerciseId } from '../../utils/exerciseId';
+import { useExerciseId } from './hooks/useExerciseId';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { AudioPhraseProps } from './generated/exerciseProps';
+import audioPhraseSchema from './schemas/AudioPhrase.schema.json';
+import { getTextContent } from '../../utils/exerciseContent';
 
 
-interface AudioPhraseProps {
-    children: ReactNode;
-    speaker?: string;
-    hideText?: boolean;
-    autoPlay?: boolean;
-    lang?: string;
-    voice?: string;
-}
-
 const extractText = (node: ReactNode): string => {
     if (typeof node === 'string') return node;
     if (typeof node === 'number') return node.toString();
@@ -27,12 +22,10 @@ const extractText = (node: ReactNode): string => {
     return '';
 };
 
-export const AudioPhrase: React.FC<AudioPhraseProps> = ({ children, speaker, hideText = false, autoPlay = false, lang, voice }) => {
+export const AudioPhrase: React.FC<AudioPhraseProps> = ({ children, speaker, hideText = false, autoPlay = false, lang, voice, id }) => {
     const { languageSettings } = useSettings();
-    const { markExerciseComplete, isExerciseComplete } = useProgress();
+    const { markExerciseComplete } = useProgress();
     const location = useLocation();
-    const exerciseIdRef = useRef<string>('');
-    const [isCompleted, setIsCompleted] = useState(false);
 
     // Use global settings as defaults if props not provided
     const effectiveLang = lang || languageSettings.learningLang;
@@ -49,13 +42,7 @@ export const AudioPhrase: React.FC<AudioPhraseProps> = ({ children, speaker, hid
     // Consider it "long" if it has newlines or is longer than 150 characters
     const isLongText = text.includes('\n') || text.length > 150;
 
-    // Generate exercise ID
-    useEffect(() => {
-        const lessonPath = location.pathname;
-        const exerciseId = generateStableExerciseId(lessonPath, 'AudioPhrase', text);
-        exerciseIdRef.current = exerciseId;
-        setIsCompleted(isExerciseComplete(exerciseId));
-    }, [location.pathname, text, isExerciseComplete]);
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(audioPhraseExercise, { children, id });
 
     useEffect(() => {
         const loadVoices = () => {
@@ -306,3 +293,11 @@ export const AudioPhrase: React.FC<AudioPhraseProps> = ({ children, speaker, hid
         </div>
     );
 };
+
+export const audioPhraseExercise = defineExercise({
+    type: 'AudioPhrase',
+    component: AudioPhrase,
+    countsTowardProgress: true,
+    propsSchema: audioPhraseSchema as ExercisePropsSchema,
+    getContentKey: props => getTextContent(props.children, ' ')
+});
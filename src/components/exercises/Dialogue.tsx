@@ -4,7 +4,11 @@ import { Volume2, VolumeX, RotateCcw, ChevronRight, Check } from 'lucide-react';
 import { useSettings } from '../../context/SettingsContext';
 import { useProgress } from '../../context/ProgressContext';
 import { useLocation } from 'react-router-dom';
-import { generateStableExerciseId } from '../../utils/exerciseId';
+import { useExerciseId } from './hooks/useExerciseId';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { DialogueProps } from './generated/exerciseProps';
+import dialogueSchema from './schemas/Dialogue.schema.json';
+import { getTextContent } from '../../utils/exerciseContent';
 
 // New interface for children-based structure
 export interface MessageProps {
@@ -19,21 +23,6 @@ export const Message: React.FC<MessageProps> = ({ children }) => {
     return <>{children}</>;
 };
 
-// Legacy interface
-interface DialogueLine {
-    speaker: string;
-    text: string;
-    side?: 'left' | 'right';
-    voice?: string;
-    silent?: boolean;
-}
-
-interface DialogueProps {
-    lines?: DialogueLine[]; // Optional now
-    children?: ReactNode;   // Support for nested Message components
-    autoPlay?: boolean;
-}
-
 // Helper to extract text from ReactNode for TTS
 const extractText = (node: ReactNode): string => {
     if (typeof node === 'string') return node;
@@ -47,26 +36,17 @@ const extractText = (node: ReactNode): string => {
     return '';
 };
 
-export const Dialogue: React.FC<DialogueProps> = ({ lines: propLines, children, autoPlay = false }) => {
+export const Dialogue: React.FC<DialogueProps> = ({ lines: propLines, children, autoPlay = false, id }) => {
     const { languageSettings } = useSettings();
-    const { markExerciseComplete, isExerciseComplete } = useProgress();
+    const { markExerciseComplete } = useProgress();
     const location = useLocation();
-    const exerciseIdRef = useRef<string>('');
-    const [isCompleted, setIsCompleted] = useState(false);
 
     const [currentIndex, setCurrentIndex] = useState(0);
     const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
     const [speakerVoices, setSpeakerVoices] = useState<{ [speaker: string]: SpeechSynthesisVoice }>({});
     const [isMuted, setIsMuted] = useState(false);
 
-    // Generate exercise ID
-    useEffect(() => {
-        const lessonPath = location.pathname;
-        const childrenText = extractText(children);
-        const exerciseId = generateStableExerciseId(lessonPath, 'Dialogue', childrenText);
-        exerciseIdRef.current = exerciseId;
-        setIsCompleted(isExerciseComplete(exerciseId));
-    }, [location.pathname, children, isExerciseComplete]);
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(dialogueExercise, { children, id });
 
     const speechRef = useRef<SpeechSynthesisUtterance | null>(null);
 
@@ -400,3 +380,13 @@ export const Dialogue: React.FC<DialogueProps> = ({ lines: propLines, children,
         </div>
     );
 };
+
+export const dialogueExercise = defineExercise({
+    type: 'Dialogue',
+    component: Dialogue,
+    aliases: ['dialogue'],
+    elements: { Message, message: Message },
+    countsTowardProgress: true,
+    propsSchema: dialogueSchema as ExercisePropsSchema,
+    getContentKey: props => getTextContent(props.children, ' ')
+});
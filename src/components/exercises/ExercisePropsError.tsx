@@ -0,0 +1,29 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { PropValidationError } from '../../lib/exercises/validateProps';
+
+interface ExercisePropsErrorProps {
+    type: string;
+    errors: PropValidationError[];
+}
+
+// Shown in place of an exercise whose props don't match its schema, so authors
+// see what to fix instead of a crash or a half-working exercise
+export const ExercisePropsError: React.FC<ExercisePropsErrorProps> = ({ type, errors }) => {
+    return (
+        <div className="my-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+            <div className="flex items-center gap-2 font-semibold mb-2">
+                <AlertTriangle size={18} />
+                <span>{type} can't be shown because of invalid props</span>
+            </div>
+            <ul className="space-y-1 text-sm">
+                {errors.map((error, idx) => (
+                    <li key={idx}>
+                        <code className="px-1 py-0.5 rounded bg-white/60 dark:bg-black/20 font-mono">{error.path || type}</code>{' '}
+                        {error.message}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
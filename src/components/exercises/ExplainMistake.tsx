@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { CircleHelp, Loader2, Settings } from 'lucide-react';
+import { useSettings } from '../../context/SettingsContext';
+import { useProfile } from '../../context/ProfileContext';
+import { AISettingsModal } from '../settings/AISettingsModal';
+import { fetchAIConfig } from '../../lib/ai/aiClient';
+import {
+    loadMistakeExplanation,
+    requestMistakeExplanation,
+    saveMistakeExplanation,
+    MISTAKE_EXPLANATIONS_KEY
+} from '../../lib/ai/explainMistake';
+
+interface ExplainMistakeProps {
+    exerciseId: string;
+    source: string; // The exercise as text, see MistakeExplanationRequest
+    correctAnswer: string;
+    learnerAnswer: string;
+    explanation?: string; // Written by the author, used instead of asking the AI
+    label?: string;
+}
+
+type ExplanationState =
+    | { status: 'idle' }
+    | { status: 'loading' }
+    | { status: 'unconfigured' }
+    | { status: 'error'; message: string }
+    | { status: 'done'; text: string };
+
+// Explains why a wrong answer is wrong: with the author's explanation if there
+// is one, else with the AI configured on the server. AI answers are cached per
+// exercise and wrong answer, so asking again costs nothing.
+// Give it a key that changes with the answer, the state belongs to one answer.
+export const ExplainMistake: React.FC<ExplainMistakeProps> = ({ exerciseId, source, correctAnswer, learnerAnswer, explanation, label = 'Explain my mistake' }) => {
+    const { languageSettings } = useSettings();
+    const { storageKey } = useProfile();
+    const [state, setState] = useState<ExplanationState>({ status: 'idle' });
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+    const explain = async () => {
+        if (explanation?.trim()) {
+            setState({ status: 'done', text: explanation.trim() });
+            return;
+        }
+
+        const lang = languageSettings.translationLang;
+        const cacheKey = storageKey(MISTAKE_EXPLANATIONS_KEY);
+        const cached = exerciseId ? loadMistakeExplanation(cacheKey, exerciseId, learnerAnswer, lang) : null;
+        if (cached) {
+            setState({ status: 'done', text: cached });
+            return;
+        }
+
+        setState({ status: 'loading' });
+        try {
+            const config = await fetchAIConfig();
+            if (!config.hasKey) {
+                setState({ status: 'unconfigured' });
+                return;
+            }
+            const text = await requestMistakeExplanation({ source, correctAnswer, learnerAnswer, translationLang: lang });
+            if (exerciseId) saveMistakeExplanation(cacheKey, exerciseId, learnerAnswer, lang, text);
+            setState({ status: 'done', text });
+        } catch (error) {
+            console.error('Error explaining mistake:', error);
+            setState({ status: 'error', message: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    return (
+        <div className="text-sm">
+            {state.status !== 'done' && (
+                <button
+                    onClick={explain}
+                    disabled={state.status === 'loading'}
+                    className="flex items-center gap-1.5 text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {state.status === 'loading' ? <Loader2 size={14} className="animate-spin" /> : <CircleHelp size={14} />}
+                    {label}
+                </button>
+            )}
+
+            {state.status === 'unconfigured' && (
+                <div className="mt-2 text-gray-600 dark:text-gray-400 flex items-center gap-3 flex-wrap">
+                    No AI provider is set up yet.
+                    <button
+                        onClick={() => setIsSettingsOpen(true)}
+                        className="flex items-center gap-1.5 text-blue-600 hover:text-blue-700 dark:text-blue-400 font-medium"
+                    >
+                        <Settings size={14} />
+                        Set up AI
+                    </button>
+                </div>
+            )}
+
+            {state.status === 'error' && (
+                <div className="mt-2 text-red-600 dark:text-red-400">
+                    Could not get an explanation: {state.message}
+                </div>
+            )}
+
+            {state.status === 'done' && (
+                <div className="p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-gray-800 dark:text-gray-200 whitespace-pre-wrap">
+                    {state.text}
+                </div>
+            )}
+
+            <AISettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+        </div>
+    );
+};
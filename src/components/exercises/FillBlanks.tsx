@@ -1,22 +1,20 @@
-import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import { DndContext, useDraggable, useDroppable, type DragEndEvent, useSensor, useSensors, PointerSensor } from '@dnd-kit/core';
 import { clsx } from 'clsx';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeRaw from 'rehype-raw';
 import { useSettings } from '../../context/SettingsContext';
+import { useExamScore } from '../../context/ExamContext';
 import { useBlanks, getTextFromChildren, type BlankData, type BlankStatus } from './hooks/useBlanks';
-import { useProgress } from '../../context/ProgressContext';
-import { useLocation } from 'react-router-dom';
 import { Check } from 'lucide-react';
-import { generateStableExerciseId } from '../../utils/exerciseId';
-
-interface FillBlanksProps {
-    children: React.ReactNode; // Text with {answer} or [answer]
-    mode?: 'input' | 'drag' | 'picker';
-    options?: string[]; // For drag mode, distractors can be added here
-    showItemHints?: boolean; // Enable individual hints (bulb icon)
-}
+import { useAttemptTracker } from './hooks/useAttemptTracker';
+import { useExerciseId } from './hooks/useExerciseId';
+import { ExplainMistake } from './ExplainMistake';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { FillBlanksProps } from './generated/exerciseProps';
+import fillBlanksSchema from './schemas/FillBlanks.schema.json';
+import { getTextContent } from '../../utils/exerciseContent';
 
 // Draggable Item
 function DraggableWord({ id, text, disabled, className }: { id: string; text: string; disabled?: boolean; className?: string }) {
@@ -111,20 +109,10 @@ const markdownComponents = {
 };
 
 
-export const FillBlanks: React.FC<FillBlanksProps> = ({ children, mode = 'input', options = [], showItemHints = false }) => {
-    const { markExerciseComplete, isExerciseComplete } = useProgress();
-    const location = useLocation();
-    const exerciseIdRef = useRef<string>('');
-    const [isCompleted, setIsCompleted] = useState(false);
-
-    // Generate exercise ID on mount
-    useEffect(() => {
-        const lessonPath = location.pathname;
-        const childrenText = getTextFromChildren(children);
-        const exerciseId = generateStableExerciseId(lessonPath, 'FillBlanks', childrenText);
-        exerciseIdRef.current = exerciseId;
-        setIsCompleted(isExerciseComplete(exerciseId));
-    }, [location.pathname, children, isExerciseComplete]);
+export const FillBlanks: React.FC<FillBlanksProps> = ({ children, mode = 'input', options = [], showItemHints = false, id }) => {
+
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(fillBlanksExercise, { children, id });
+    const { registerWrongSubmission, registerHint, completeAttempt } = useAttemptTracker(exerciseIdRef);
     // Pre-process children: dedent if string to ensure markdown tables work
     const contentToProcess = useMemo(() => {
         // Convert children to string first (MDX may pass as array)
@@ -161,6 +149,7 @@ export const FillBlanks: React.FC<FillBlanksProps> = ({ children, mode = 'input'
         showAllAnswers,
         renderContent,
         allCorrect: inputsAllCorrect,
+        correctCount: inputsCorrectCount,
         setSubmitted
     } = useBlanks({ children: contentToProcess, mode: mode === 'drag' ? 'input' : mode, options });
 
@@ -320,6 +309,7 @@ export const FillBlanks: React.FC<FillBlanksProps> = ({ children, mode = 'input'
     };
 
     const handleShowAnswers = () => {
+        registerHint();
         showAllAnswers(); // Sets submitted=true and inputs=answers
 
         if (mode === 'drag') {
@@ -345,8 +335,19 @@ export const FillBlanks: React.FC<FillBlanksProps> = ({ children, mode = 'input'
         // DnD validation happens in render or calculation below
 
         // Check if all correct and mark as complete
-        if (allCorrect && exerciseIdRef.current) {
-            markExerciseComplete(exerciseIdRef.current, location.pathname);
+        if (!allCorrect) {
+            const wrongAnswers = answers
+                .map((ans, idx) => {
+                    if (mode === 'drag') {
+                        const given = getItemText(droppedItems[`drop-${idx}`] || '');
+                        return given === ans ? '' : given;
+                    }
+                    const given = inputs[idx] || '';
+                    return given.trim().toLowerCase() === ans.toLowerCase() ? '' : given;
+                });
+            registerWrongSubmission(wrongAnswers);
+        } else if (exerciseIdRef.current) {
+            completeAttempt();
             setIsCompleted(true);
         }
     };
@@ -369,6 +370,41 @@ export const FillBlanks: React.FC<FillBlanksProps> = ({ children, mode = 'input'
             return droppedId && getItemText(droppedId) === ans;
         });
 
+    const correctCount = (mode === 'input' || mode === 'picker')
+        ? inputsCorrectCount
+        : answers.filter((ans, idx) => {
+            const droppedId = droppedItems[`drop-${idx}`];
+            return droppedId && getItemText(droppedId) === ans;
+        }).length;
+
+    // In an exam every correct blank scores, without Check, hints or feedback
+    const inExam = useExamScore(correctCount, answers.length);
+
+    // Filled gaps that are wrong, each can be explained on its own
+    const wrongGaps = submitted && !inExam
+        ? answers
+            .map((answer, index) => ({
+                index,
+                answer,
+                given: mode === 'drag' ? getItemText(droppedItems[`drop-${index}`] || '') : (inputs[index] || '').trim()
+            }))
+            .filter(gap => gap.given !== '' && gap.given.toLowerCase() !== gap.answer.toLowerCase())
+        : [];
+
+    // The exercise as text with the other gaps filled in and this one marked
+    const describeGap = (gapIndex: number) => {
+        let blankIndex = 0;
+        return getTextFromChildren(contentToProcess)
+            .split(/(\[.*?\])/g)
+            .map(part => {
+                if (!(part.startsWith('[') && part.endsWith(']'))) return part;
+                const index = blankIndex++;
+                return index === gapIndex ? '___' : answers[index];
+            })
+            .join('')
+            .trim();
+    };
+
     const renderBlank = useCallback((index: number, data: BlankData, status: BlankStatus) => {
         const { value } = status;
         const { answer, localOptions } = data;
@@ -404,9 +440,9 @@ export const FillBlanks: React.FC<FillBlanksProps> = ({ children, mode = 'input'
                             <option key={i} value={opt}>{opt}</option>
                         ))}
                     </select>
-                    {showItemHints && !submitted && (
+                    {showItemHints && !inExam && !submitted && (
                         <button
-                            onClick={() => revealAnswer(index)}
+                            onClick={() => { registerHint(); revealAnswer(index); }}
                             title={value === answer ? "Hide hint" : "Show hint"}
                             className="ml-0.5 p-0.5 text-gray-400 hover:text-yellow-500 transition-colors focus:outline-none"
                         >
@@ -487,9 +523,9 @@ export const FillBlanks: React.FC<FillBlanksProps> = ({ children, mode = 'input'
                     )}
                     style={{ width: `${Math.max(answer.length * 10 + 20, 60)}px` }}
                 />
-                {showItemHints && !isCorrect && !submitted && (
+                {showItemHints && !inExam && !isCorrect && !submitted && (
                     <button
-                        onClick={() => revealAnswer(index)}
+                        onClick={() => { registerHint(); revealAnswer(index); }}
                         className="absolute -right-6 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-yellow-500 transition-colors"
                         title="Show hint"
                     >
@@ -500,14 +536,14 @@ export const FillBlanks: React.FC<FillBlanksProps> = ({ children, mode = 'input'
                         </svg>
                     </button>
                 )}
-                {data.hint && (submitted || (touched[index] && value === data.answer)) && (
+                {data.hint && !inExam && (submitted || (touched[index] && value === data.answer)) && (
                     <span className="ml-2 text-sm text-gray-500 italic animate-in fade-in">
                         ({data.hint})
                     </span>
                 )}
             </span>
         );
-    }, [mode, inputs, handleInputChange, handleBlur, options, submitted, showItemHints, revealAnswer, droppedItems, handleDropZoneClick, getItemText, activeDropMenu, dragItems, handleMenuOptionClick]);
+    }, [mode, inputs, handleInputChange, handleBlur, options, submitted, inExam, showItemHints, revealAnswer, registerHint, droppedItems, handleDropZoneClick, getItemText, activeDropMenu, dragItems, handleMenuOptionClick]);
 
 
     // Check if content is a markdown table (not just any text with pipes or newlines)
@@ -589,7 +625,7 @@ export const FillBlanks: React.FC<FillBlanksProps> = ({ children, mode = 'input'
                 )}
             </DndContext>
 
-            <div className="flex gap-4 items-center flex-wrap">
+            {!inExam && <div className="flex gap-4 items-center flex-wrap">
                 {!submitted ? (
                     <>
                         <button
@@ -632,7 +668,36 @@ export const FillBlanks: React.FC<FillBlanksProps> = ({ children, mode = 'input'
                         </span>
                     </>
                 )}
-            </div>
+            </div>}
+
+            {wrongGaps.length > 0 && (
+                <div className="mt-4 space-y-3">
+                    {wrongGaps.map(gap => (
+                        <div key={`${gap.index}:${gap.given}`}>
+                            <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">
+                                Gap {gap.index + 1}: <span className="text-red-600 dark:text-red-400 line-through">{gap.given}</span>
+                            </div>
+                            {/* Cached per gap: the same word can be wrong for another reason elsewhere */}
+                            <ExplainMistake
+                                exerciseId={exerciseIdRef.current ? `${exerciseIdRef.current}#${gap.index + 1}` : ''}
+                                source={describeGap(gap.index)}
+                                correctAnswer={gap.answer}
+                                learnerAnswer={gap.given}
+                                explanation={blanksData[gap.index]?.explanation}
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
         </div>
     );
 };
+
+export const fillBlanksExercise = defineExercise({
+    type: 'FillBlanks',
+    component: FillBlanks,
+    aliases: ['fillblanks'],
+    countsTowardProgress: true,
+    propsSchema: fillBlanksSchema as ExercisePropsSchema,
+    getContentKey: props => getTextContent(props.children, '')
+});
@@ -9,36 +9,16 @@ import { clsx } from 'clsx';
 import { useSettings } from '../../context/SettingsContext';
 import { useProgress } from '../../context/ProgressContext';
 import { useLocation } from 'react-router-dom';
-import { generateStableExerciseId } from '../../utils/exerciseId';
+import { useExerciseId } from './hooks/useExerciseId';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { FlashcardsProps, FlashcardItem } from './generated/exerciseProps';
+import flashcardsSchema from './schemas/Flashcards.schema.json';
 
 
-export interface FlashcardItem {
-    word: string;
-    wordTranslation: string;
-    phrase: string;
-    phraseTranslation: string;
-    audio?: string;
-    category?: string;
-    partOfSpeech?: string;
-}
-
-interface FlashcardsProps {
-    items: FlashcardItem[];
-    lang?: string;
-    translationLang?: string;
-    voice?: string;
-    translationVoice?: string;
-    autoPlay?: boolean;
-    showLearn?: boolean;
-    showQuiz?: boolean;
-    showMatch?: boolean;
-    showType?: boolean;
-    showSpeak?: boolean;
-}
-
 type FlashcardMode = 'flip' | 'quiz' | 'matching' | 'typing' | 'speed';
 
 export const Flashcards: React.FC<FlashcardsProps> = ({
+    id,
     items,
     lang,
     translationLang,
@@ -70,19 +50,10 @@ export const Flashcards: React.FC<FlashcardsProps> = ({
     const [mode, setMode] = useState<FlashcardMode>(availableModes[0] || 'flip');
     const [currentIndex, setCurrentIndex] = useState(0);
 
-    const { markExerciseComplete, isExerciseComplete } = useProgress();
+    const { markExerciseComplete } = useProgress();
     const location = useLocation();
-    const exerciseIdRef = useRef<string>('');
-    const [isCompleted, setIsCompleted] = useState(false);
 
-    // Generate exercise ID
-    useEffect(() => {
-        const lessonPath = location.pathname;
-        const contentId = JSON.stringify(items.map(i => i.word + i.wordTranslation));
-        const exerciseId = generateStableExerciseId(lessonPath, 'Flashcards', contentId);
-        exerciseIdRef.current = exerciseId;
-        setIsCompleted(isExerciseComplete(exerciseId));
-    }, [location.pathname, items, isExerciseComplete]);
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(flashcardsExercise, { items, id });
 
     const handleComplete = useCallback(() => {
         if (exerciseIdRef.current) {
@@ -1036,3 +1007,12 @@ const SpeedView: React.FC<{
         </div>
     );
 };
+
+export const flashcardsExercise = defineExercise({
+    type: 'Flashcards',
+    component: Flashcards,
+    aliases: ['flashcards'],
+    countsTowardProgress: true,
+    propsSchema: flashcardsSchema as ExercisePropsSchema,
+    getContentKey: props => JSON.stringify((props.items ?? []).map(i => i.word + i.wordTranslation))
+});
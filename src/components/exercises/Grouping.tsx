@@ -2,14 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { DndContext, useDraggable, useDroppable, type DragEndEvent, useSensor, useSensors, PointerSensor } from '@dnd-kit/core';
 import { clsx } from 'clsx';
 import { useSettings } from '../../context/SettingsContext';
-import { useProgress } from '../../context/ProgressContext';
-import { useLocation } from 'react-router-dom';
 import { Check } from 'lucide-react';
-import { generateStableExerciseId } from '../../utils/exerciseId';
-
-interface GroupingProps {
-    groups: { [groupName: string]: string[] };
-}
+import { useAttemptTracker } from './hooks/useAttemptTracker';
+import { useExerciseId } from './hooks/useExerciseId';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { GroupingProps } from './generated/exerciseProps';
+import groupingSchema from './schemas/Grouping.schema.json';
 
 // Draggable Item
 function DraggableItem({ id, text, className, disabled }: { id: string; text: string; className?: string; disabled?: boolean }) {
@@ -78,7 +76,7 @@ function GroupContainer({ id, title, items, isOver, submitted, correctItems, onI
     );
 }
 
-export const Grouping: React.FC<GroupingProps> = ({ groups }) => {
+export const Grouping: React.FC<GroupingProps> = ({ groups, id }) => {
     const [items, setItems] = useState<{ id: string; text: string }[]>([]);
     const [placements, setPlacements] = useState<{ [itemId: string]: string }>({}); // itemId -> groupId
     const [submitted, setSubmitted] = useState(false);
@@ -86,11 +84,6 @@ export const Grouping: React.FC<GroupingProps> = ({ groups }) => {
     const { showHints } = useSettings();
     const [selectedId, setSelectedId] = useState<string | null>(null);
 
-    const { markExerciseComplete, isExerciseComplete } = useProgress();
-    const location = useLocation();
-    const exerciseIdRef = React.useRef<string>('');
-    const [isCompleted, setIsCompleted] = useState(false);
-
     const sensors = useSensors(
         useSensor(PointerSensor, {
             activationConstraint: {
@@ -107,14 +100,8 @@ export const Grouping: React.FC<GroupingProps> = ({ groups }) => {
         setItems(allItems.sort(() => Math.random() - 0.5));
     }, [groups]);
 
-    // Generate exercise ID
-    useEffect(() => {
-        const lessonPath = location.pathname;
-        const contentId = JSON.stringify(groups);
-        const exerciseId = generateStableExerciseId(lessonPath, 'Grouping', contentId);
-        exerciseIdRef.current = exerciseId;
-        setIsCompleted(isExerciseComplete(exerciseId));
-    }, [location.pathname, groups, isExerciseComplete]);
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(groupingExercise, { groups, id });
+    const { registerWrongSubmission, registerHint, completeAttempt } = useAttemptTracker(exerciseIdRef);
 
     const handleDragEnd = (event: DragEndEvent) => {
         const { active, over } = event;
@@ -168,6 +155,7 @@ export const Grouping: React.FC<GroupingProps> = ({ groups }) => {
     };
 
     const checkAnswers = () => {
+        if (!isAllCorrect) registerWrongSubmission(describeMisplacedItems());
         setSubmitted(true);
         setShowAnswers(false);
         setSelectedId(null);
@@ -182,6 +170,7 @@ export const Grouping: React.FC<GroupingProps> = ({ groups }) => {
     };
 
     const handleShowAnswers = () => {
+        registerHint();
         setShowAnswers(true);
         setSubmitted(true);
         setSelectedId(null);
@@ -205,13 +194,18 @@ export const Grouping: React.FC<GroupingProps> = ({ groups }) => {
         return groups[groupId].includes(item.text);
     });
 
+    // Misplaced items as "item → group" for the attempt history
+    const describeMisplacedItems = () => items
+        .filter(item => placements[item.id] && !groups[placements[item.id]].includes(item.text))
+        .map(item => `${item.text} → ${placements[item.id]}`);
+
     // Check completion
     useEffect(() => {
         if (submitted && isAllCorrect && exerciseIdRef.current) {
-            markExerciseComplete(exerciseIdRef.current, location.pathname);
+            completeAttempt();
             setIsCompleted(true);
         }
-    }, [submitted, isAllCorrect, markExerciseComplete, location.pathname]);
+    }, [submitted, isAllCorrect, completeAttempt]);
 
     return (
         <div className="my-6 p-6 border border-gray-200 rounded-xl bg-white shadow-sm dark:bg-gray-800 dark:border-gray-700 relative">
@@ -338,3 +332,12 @@ export const Grouping: React.FC<GroupingProps> = ({ groups }) => {
         </div>
     );
 };
+
+export const groupingExercise = defineExercise({
+    type: 'Grouping',
+    component: Grouping,
+    aliases: ['grouping'],
+    countsTowardProgress: true,
+    propsSchema: groupingSchema as ExercisePropsSchema,
+    getContentKey: props => JSON.stringify(props.groups)
+});
@@ -1,27 +1,14 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useRef } from 'react';
 import { DndContext, closestCenter, PointerSensor, useSensor, useSensors, type DragEndEvent, useDroppable } from '@dnd-kit/core';
 import { SortableContext, rectSortingStrategy, useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { clsx } from 'clsx';
-import { useProgress } from '../../context/ProgressContext';
-import { useLocation } from 'react-router-dom';
 import { Check } from 'lucide-react';
-import { generateStableExerciseId } from '../../utils/exerciseId';
-
-interface Slot {
-    id: string;
-    x: number;        // Percentage (0-100)
-    y: number;        // Percentage (0-100)
-    answer: string;   // Correct word
-}
-
-interface ImageLabelingProps {
-    image: string;
-    slots: Slot[];
-    words: string[];
-    mode?: 'normal' | 'compact';
-    onResolvePath?: (path: string) => string;
-}
+import { useAttemptTracker } from './hooks/useAttemptTracker';
+import { useExerciseId } from './hooks/useExerciseId';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { ImageLabelingProps, ImageLabelingSlot } from './generated/exerciseProps';
+import imageLabelingSchema from './schemas/ImageLabeling.schema.json';
 
 function DraggableWord({ id, text, isUsed }: { id: string; text: string; isUsed: boolean }) {
     const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
@@ -63,7 +50,7 @@ function DroppableSlot({
     availableWords,
     mode = 'normal'
 }: {
-    slot: Slot;
+    slot: ImageLabelingSlot;
     value: string | undefined;
     submitted: boolean;
     onSlotClick: () => void;
@@ -170,13 +157,9 @@ function DroppableSlot({
     );
 }
 
-export const ImageLabeling: React.FC<ImageLabelingProps> = ({ image, slots, words, mode = 'normal', onResolvePath }) => {
+export const ImageLabeling: React.FC<ImageLabelingProps> = ({ image, slots, words, mode = 'normal', onResolvePath, id }) => {
     const [slotValues, setSlotValues] = useState<Record<string, string>>({});
     const [submitted, setSubmitted] = useState(false);
-    const { markExerciseComplete, isExerciseComplete } = useProgress();
-    const location = useLocation();
-    const exerciseIdRef = useRef<string>('');
-    const [isCompleted, setIsCompleted] = useState(false);
 
     const sensors = useSensors(
         useSensor(PointerSensor, {
@@ -203,16 +186,8 @@ export const ImageLabeling: React.FC<ImageLabelingProps> = ({ image, slots, word
         return image;
     }, [image, onResolvePath]);
 
-    useEffect(() => {
-        const lessonPath = location.pathname;
-        const exerciseId = generateStableExerciseId(
-            lessonPath,
-            'ImageLabeling',
-            JSON.stringify({ image, slots: slots.map(s => s.answer) })
-        );
-        exerciseIdRef.current = exerciseId;
-        setIsCompleted(isExerciseComplete(exerciseId));
-    }, [location.pathname, image, slots, isExerciseComplete]);
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(imageLabelingExercise, { image, slots, id });
+    const { registerWrongSubmission, completeAttempt } = useAttemptTracker(exerciseIdRef);
 
     const handleDragEnd = (event: DragEndEvent) => {
         const { active, over } = event;
@@ -251,8 +226,12 @@ export const ImageLabeling: React.FC<ImageLabelingProps> = ({ image, slots, word
         setSubmitted(true);
         const allCorrect = slots.every(slot => slotValues[slot.id] === slot.answer);
 
-        if (allCorrect && exerciseIdRef.current) {
-            markExerciseComplete(exerciseIdRef.current, location.pathname);
+        if (!allCorrect) {
+            registerWrongSubmission(slots
+                .filter(slot => slotValues[slot.id] !== slot.answer)
+                .map(slot => slotValues[slot.id] || ''));
+        } else if (exerciseIdRef.current) {
+            completeAttempt();
             setIsCompleted(true);
         }
     };
@@ -347,3 +326,12 @@ export const ImageLabeling: React.FC<ImageLabelingProps> = ({ image, slots, word
         </div>
     );
 };
+
+export const imageLabelingExercise = defineExercise({
+    type: 'ImageLabeling',
+    component: ImageLabeling,
+    aliases: ['imagelabeling'],
+    countsTowardProgress: true,
+    propsSchema: imageLabelingSchema as ExercisePropsSchema,
+    getContentKey: props => JSON.stringify({ image: props.image, slots: (props.slots ?? []).map(s => s.answer) })
+});
@@ -1,19 +1,18 @@
-import React, { useMemo, useCallback, useEffect, useRef, useState } from 'react';
+import React, { useMemo, useCallback, useEffect } from 'react';
 import { clsx } from 'clsx';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeRaw from 'rehype-raw';
 import { useBlanks, getTextFromChildren, type BlankData, type BlankStatus } from './hooks/useBlanks';
 import { useProgress } from '../../context/ProgressContext';
+import { useExamScore } from '../../context/ExamContext';
 import { useLocation } from 'react-router-dom';
 import { Check } from 'lucide-react';
-import { generateStableExerciseId } from '../../utils/exerciseId';
-
-interface InlineBlanksProps {
-    children: React.ReactNode;
-    mode?: 'type' | 'picker';
-    options?: string[];
-}
+import { useExerciseId } from './hooks/useExerciseId';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { InlineBlanksProps } from './generated/exerciseProps';
+import inlineBlanksSchema from './schemas/InlineBlanks.schema.json';
+import { getTextContent } from '../../utils/exerciseContent';
 
 // Context to pass data to markdown components without re-creating them
 const InlineBlanksContext = React.createContext<{
@@ -62,20 +61,11 @@ const inlineMarkdownComponents = {
     p: ({ children }: any) => <span className="block mb-2">{children}</span>
 };
 
-export const InlineBlanks: React.FC<InlineBlanksProps> = ({ children, mode = 'type', options = [] }) => {
-    const { markExerciseComplete, isExerciseComplete } = useProgress();
+export const InlineBlanks: React.FC<InlineBlanksProps> = ({ children, mode = 'type', options = [], id }) => {
+    const { markExerciseComplete } = useProgress();
     const location = useLocation();
-    const exerciseIdRef = useRef<string>('');
-    const [isCompleted, setIsCompleted] = useState(false);
 
-    // Generate exercise ID on mount
-    useEffect(() => {
-        const lessonPath = location.pathname;
-        const childrenText = getTextFromChildren(children);
-        const exerciseId = generateStableExerciseId(lessonPath, 'InlineBlanks', childrenText);
-        exerciseIdRef.current = exerciseId;
-        setIsCompleted(isExerciseComplete(exerciseId));
-    }, [location.pathname, children, isExerciseComplete]);
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(inlineBlanksExercise, { children, id });
 
     // Pre-process children: dedent if string to ensure markdown tables work
     const contentToProcess = useMemo(() => {
@@ -107,16 +97,20 @@ export const InlineBlanks: React.FC<InlineBlanksProps> = ({ children, mode = 'ty
         blurred,
         revealAnswer,
         renderContent,
-        allCorrect
+        allCorrect,
+        correctCount
     } = useBlanks({ children: contentToProcess, mode, options });
 
+    // In an exam every correct blank scores, without validation or hints
+    const inExam = useExamScore(correctCount, blanksData.length);
+
     // Check completion when all correct
     useEffect(() => {
-        if (allCorrect && exerciseIdRef.current && !isCompleted) {
+        if (allCorrect && !inExam && exerciseIdRef.current && !isCompleted) {
             markExerciseComplete(exerciseIdRef.current, location.pathname);
             setIsCompleted(true);
         }
-    }, [allCorrect, isCompleted, markExerciseComplete, location.pathname]);
+    }, [allCorrect, inExam, isCompleted, markExerciseComplete, location.pathname]);
 
     const renderBlank = useCallback((index: number, data: BlankData, status: BlankStatus) => {
         const { value } = status;
@@ -128,7 +122,7 @@ export const InlineBlanks: React.FC<InlineBlanksProps> = ({ children, mode = 'ty
 
         // Strict validation: only show if touched AND blurred
         const isCorrectRaw = value.trim().toLowerCase() === data.answer.toLowerCase();
-        const shouldShowValidation = touched[index] && blurred[index] && value.trim() !== '';
+        const shouldShowValidation = !inExam && touched[index] && blurred[index] && value.trim() !== '';
 
         const isRight = shouldShowValidation && isCorrectRaw;
         const isWrongVal = shouldShowValidation && !isCorrectRaw;
@@ -175,7 +169,7 @@ export const InlineBlanks: React.FC<InlineBlanksProps> = ({ children, mode = 'ty
                         style={{ width: `${Math.max(answer.length * 10 + 10, 40)}px` }}
                     />
                 )}
-                <button
+                {!inExam && <button
                     onClick={() => revealAnswer(index)}
                     title={value === answer ? "Hide hint" : "Show hint"}
                     className="ml-0.5 p-0.5 text-gray-400 hover:text-yellow-500 transition-colors focus:outline-none"
@@ -185,15 +179,15 @@ export const InlineBlanks: React.FC<InlineBlanksProps> = ({ children, mode = 'ty
                         <path d="M9 18h6" />
                         <path d="M10 22h4" />
                     </svg>
-                </button>
-                {data.hint && (touched[index] && value === data.answer) && (
+                </button>}
+                {data.hint && !inExam && (touched[index] && value === data.answer) && (
                     <span className="ml-1 text-xs text-gray-500 italic animate-in fade-in whitespace-nowrap">
                         ({data.hint})
                     </span>
                 )}
             </span>
         );
-    }, [mode, inputs, handleInputChange, handleBlur, options, revealAnswer]);
+    }, [mode, inputs, handleInputChange, handleBlur, options, revealAnswer, inExam]);
 
     // Check if content is a markdown table (not just any text with pipes or newlines)
     const isMarkdown = useMemo(() => {
@@ -251,3 +245,12 @@ export const InlineBlanks: React.FC<InlineBlanksProps> = ({ children, mode = 'ty
         </span>
     );
 };
+
+export const inlineBlanksExercise = defineExercise({
+    type: 'InlineBlanks',
+    component: InlineBlanks,
+    aliases: ['inlineblanks'],
+    countsTowardProgress: true,
+    propsSchema: inlineBlanksSchema as ExercisePropsSchema,
+    getContentKey: props => getTextContent(props.children, '')
+});
@@ -4,7 +4,11 @@ import { clsx } from 'clsx';
 import ReactPlayer from 'react-player';
 import { useProgress } from '../../context/ProgressContext';
 import { useLocation } from 'react-router-dom';
-import { generateStableExerciseId } from '../../utils/exerciseId';
+import { useExerciseId } from './hooks/useExerciseId';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { InteractiveMediaProps } from './generated/exerciseProps';
+import interactiveMediaSchema from './schemas/InteractiveMedia.schema.json';
+import { parseTime } from '../../utils/mediaTime';
 
 interface CheckpointProps {
     time: number | string; // Time in seconds OR "HH:MM:SS,ms"
@@ -15,32 +19,8 @@ export const Checkpoint: React.FC<CheckpointProps> = ({ children }) => {
     return <>{children}</>;
 };
 
-interface InteractiveMediaProps {
-    src: string;
-    type?: 'audio' | 'video';
-    title?: string;
-    children?: ReactNode;
-}
-
-// Helper to parse time string "00:00:14,480" or "00:14" to seconds
-const parseTime = (time: number | string): number => {
-    if (typeof time === 'number') return time;
-
-    // Replace comma with dot for standard parsing if needed, though we'll split manually
-    const cleanTime = time.replace(',', '.');
-    const parts = cleanTime.split(':').map(parseFloat);
-
-    if (parts.length === 3) {
-        // HH:MM:SS.ms
-        return parts[0] * 3600 + parts[1] * 60 + parts[2];
-    } else if (parts.length === 2) {
-        // MM:SS.ms
-        return parts[0] * 60 + parts[1];
-    }
-    return parseFloat(cleanTime);
-};
-
 export const InteractiveMedia: React.FC<InteractiveMediaProps> = ({
+    id,
     src,
     type = 'video',
     title,
@@ -56,18 +36,10 @@ export const InteractiveMedia: React.FC<InteractiveMediaProps> = ({
     const [isFullscreen, setIsFullscreen] = useState(false);
     const [hasEnded, setHasEnded] = useState(false);
 
-    const { markExerciseComplete, isExerciseComplete } = useProgress();
+    const { markExerciseComplete } = useProgress();
     const location = useLocation();
-    const exerciseIdRef = useRef<string>('');
-    const [isCompleted, setIsCompleted] = useState(false);
 
-    // Generate exercise ID
-    useEffect(() => {
-        const lessonPath = location.pathname;
-        const exerciseId = generateStableExerciseId(lessonPath, 'InteractiveMedia', src);
-        exerciseIdRef.current = exerciseId;
-        setIsCompleted(isExerciseComplete(exerciseId));
-    }, [location.pathname, src, isExerciseComplete]);
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(interactiveMediaExercise, { src, id });
 
     // Parse checkpoints from children
     const checkpoints = React.Children.toArray(children)
@@ -443,3 +415,13 @@ export const InteractiveMedia: React.FC<InteractiveMediaProps> = ({
         </div>
     );
 };
+
+export const interactiveMediaExercise = defineExercise({
+    type: 'InteractiveMedia',
+    component: InteractiveMedia,
+    aliases: ['interactivemedia'],
+    elements: { Checkpoint, checkpoint: Checkpoint },
+    countsTowardProgress: true,
+    propsSchema: interactiveMediaSchema as ExercisePropsSchema,
+    getContentKey: props => props.src
+});
@@ -2,15 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { DndContext, useDraggable, useDroppable, type DragEndEvent, useSensor, useSensors, PointerSensor } from '@dnd-kit/core';
 import { clsx } from 'clsx';
 import { useSettings } from '../../context/SettingsContext';
-import { useProgress } from '../../context/ProgressContext';
-import { useLocation } from 'react-router-dom';
+import { useExamScore } from '../../context/ExamContext';
 import { Check } from 'lucide-react';
-import { generateStableExerciseId } from '../../utils/exerciseId';
-
-interface MatchingProps {
-    pairs: { left: string; right: string }[];
-    direction?: 'left' | 'right';
-}
+import { useAttemptTracker } from './hooks/useAttemptTracker';
+import { useExerciseId } from './hooks/useExerciseId';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { MatchingProps } from './generated/exerciseProps';
+import matchingSchema from './schemas/Matching.schema.json';
 
 // Draggable Item (Left side)
 function DraggableItem({ id, text, isDropped, className }: { id: string; text: string; isDropped: boolean; className?: string }) {
@@ -76,11 +74,7 @@ function DroppableZone({ id, text, currentItem, matchedId, direction }: { id: st
     );
 }
 
-export const Matching: React.FC<MatchingProps> = ({ pairs, direction = 'right' }) => {
-    const { markExerciseComplete, isExerciseComplete } = useProgress();
-    const location = useLocation();
-    const exerciseIdRef = React.useRef<string>('');
-    const [isCompleted, setIsCompleted] = useState(false);
+export const Matching: React.FC<MatchingProps> = ({ pairs, direction = 'right', id }) => {
 
     const [draggableItems, setDraggableItems] = useState<{ id: string; text: string; originalIndex: number }[]>([]);
     const [matches, setMatches] = useState<{ [key: string]: string }>({}); // targetId -> draggableId
@@ -109,14 +103,8 @@ export const Matching: React.FC<MatchingProps> = ({ pairs, direction = 'right' }
         setDraggableItems(items.sort(() => Math.random() - 0.5));
     }, [pairs, direction]);
 
-    // Generate exercise ID
-    useEffect(() => {
-        const lessonPath = location.pathname;
-        const contentId = JSON.stringify(pairs);
-        const exerciseId = generateStableExerciseId(lessonPath, 'Matching', contentId);
-        exerciseIdRef.current = exerciseId;
-        setIsCompleted(isExerciseComplete(exerciseId));
-    }, [location.pathname, pairs, isExerciseComplete]);
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(matchingExercise, { pairs, id });
+    const { registerWrongSubmission, registerHint, completeAttempt } = useAttemptTracker(exerciseIdRef);
 
     const handleDragEnd = (event: DragEndEvent) => {
         const { active, over } = event;
@@ -169,6 +157,7 @@ export const Matching: React.FC<MatchingProps> = ({ pairs, direction = 'right' }
     };
 
     const checkAnswers = () => {
+        if (!allCorrect) registerWrongSubmission(describeWrongMatches());
         setSubmitted(true);
         setSelected(null);
     };
@@ -192,6 +181,7 @@ export const Matching: React.FC<MatchingProps> = ({ pairs, direction = 'right' }
     const { showHints } = useSettings();
 
     const handleShowAnswers = () => {
+        registerHint();
         const correctMatches: { [key: string]: string } = {};
         pairs.forEach((_, idx) => {
             correctMatches[`target-${idx}`] = `drag-${idx}`;
@@ -217,13 +207,26 @@ export const Matching: React.FC<MatchingProps> = ({ pairs, direction = 'right' }
 
     const allCorrect = pairs.every((_, i) => isCorrect(i));
 
+    // In an exam every correct pair scores, without Check or feedback
+    const inExam = useExamScore(pairs.filter((_, i) => isCorrect(i)).length, pairs.length);
+
+    // Wrong matches as "left → right" for the attempt history
+    const describeWrongMatches = () => pairs.map((pair, i) => {
+        const draggableId = matches[`target-${i}`];
+        if (!draggableId || isCorrect(i)) return '';
+        const draggableIndex = parseInt(draggableId.split('-')[1]);
+        return direction === 'right'
+            ? `${pairs[draggableIndex].left} → ${pair.right}`
+            : `${pair.left} → ${pairs[draggableIndex].right}`;
+    });
+
     // Check completion
     useEffect(() => {
         if (submitted && allCorrect && exerciseIdRef.current) {
-            markExerciseComplete(exerciseIdRef.current, location.pathname);
+            completeAttempt();
             setIsCompleted(true);
         }
-    }, [submitted, allCorrect, markExerciseComplete, location.pathname]);
+    }, [submitted, allCorrect, completeAttempt]);
 
     // Filter out matched items for the main view
     const visibleDraggables = draggableItems.filter(item => !Object.values(matches).includes(item.id));
@@ -375,7 +378,7 @@ export const Matching: React.FC<MatchingProps> = ({ pairs, direction = 'right' }
 
             {Object.keys(matches).length > 0 && matchedPairsList}
 
-            <div className="mt-8 flex gap-4 items-center">
+            {!inExam && <div className="mt-8 flex gap-4 items-center">
                 {!submitted ? (
                     <>
                         <button
@@ -418,7 +421,16 @@ export const Matching: React.FC<MatchingProps> = ({ pairs, direction = 'right' }
                         </span>
                     </>
                 )}
-            </div>
+            </div>}
         </div>
     );
 };
+
+export const matchingExercise = defineExercise({
+    type: 'Matching',
+    component: Matching,
+    aliases: ['matching'],
+    countsTowardProgress: true,
+    propsSchema: matchingSchema as ExercisePropsSchema,
+    getContentKey: props => JSON.stringify(props.pairs)
+});
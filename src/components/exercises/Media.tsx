@@ -1,28 +1,17 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React from 'react';
 import { useProgress } from '../../context/ProgressContext';
 import { useLocation } from 'react-router-dom';
 import { Check } from 'lucide-react';
-import { generateStableExerciseId } from '../../utils/exerciseId';
+import { useExerciseId } from './hooks/useExerciseId';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { MediaProps } from './generated/exerciseProps';
+import mediaSchema from './schemas/Media.schema.json';
 
-interface MediaProps {
-    src: string;
-    type: 'audio' | 'video' | 'youtube' | 'image';
-    caption?: string;
-    onResolvePath?: (path: string) => string;
-}
-
-export const Media: React.FC<MediaProps> = ({ src, type, caption, onResolvePath }) => {
-    const { markExerciseComplete, isExerciseComplete } = useProgress();
+export const Media: React.FC<MediaProps> = ({ src, type, caption, onResolvePath, id }) => {
+    const { markExerciseComplete } = useProgress();
     const location = useLocation();
-    const exerciseIdRef = useRef<string>('');
-    const [isCompleted, setIsCompleted] = useState(false);
 
-    useEffect(() => {
-        const lessonPath = location.pathname;
-        const exerciseId = generateStableExerciseId(lessonPath, 'Media', src);
-        exerciseIdRef.current = exerciseId;
-        setIsCompleted(isExerciseComplete(exerciseId));
-    }, [location.pathname, src, isExerciseComplete]);
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(mediaExercise, { src, id });
 
     const handleMediaEnd = () => {
         if (exerciseIdRef.current) {
@@ -113,3 +102,12 @@ export const Media: React.FC<MediaProps> = ({ src, type, caption, onResolvePath
         </div>
     );
 };
+
+export const mediaExercise = defineExercise({
+    type: 'Media',
+    component: Media,
+    aliases: ['media'],
+    countsTowardProgress: true,
+    propsSchema: mediaSchema as ExercisePropsSchema,
+    getContentKey: props => props.src
+});
@@ -1,21 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useMemo, useState, useEffect } from 'react';
 import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, type DragEndEvent } from '@dnd-kit/core';
 import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy, rectSortingStrategy, useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { clsx } from 'clsx';
 import { useSettings } from '../../context/SettingsContext';
-import { useProgress } from '../../context/ProgressContext';
-import { useLocation } from 'react-router-dom';
 import { Check } from 'lucide-react';
-import { generateStableExerciseId } from '../../utils/exerciseId';
-
-interface OrderingProps {
-    items: string[];
-    options?: string[]; // Optional list of all available words (including distractors)
-    alternatives?: string[][]; // Optional list of other correct orders
-    direction?: 'vertical' | 'horizontal';
-    mode?: 'normal' | 'compact';
-}
+import { useAttemptTracker } from './hooks/useAttemptTracker';
+import { useExerciseId } from './hooks/useExerciseId';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { OrderingProps } from './generated/exerciseProps';
+import orderingSchema from './schemas/Ordering.schema.json';
 
 function SortableItem({ id, text, isCorrect, submitted, direction = 'vertical', mode = 'normal', onClick }: { id: string; text: string; isCorrect?: boolean; submitted: boolean; direction?: 'vertical' | 'horizontal'; mode?: 'normal' | 'compact'; onClick?: () => void }) {
     const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id });
@@ -52,17 +46,12 @@ function SortableItem({ id, text, isCorrect, submitted, direction = 'vertical',
     );
 }
 
-export const Ordering: React.FC<OrderingProps> = ({ items: correctOrder, options, alternatives, direction = 'vertical', mode = 'normal' }) => {
+export const Ordering: React.FC<OrderingProps> = ({ items: correctOrder, options, alternatives, direction = 'vertical', mode = 'normal', id }) => {
     const [items, setItems] = useState<{ id: string; text: string }[]>([]);
     // For horizontal mode (sentence builder):
     const [bankItems, setBankItems] = useState<{ id: string; text: string }[]>([]);
     const [answerItems, setAnswerItems] = useState<{ id: string; text: string }[]>([]);
 
-    const { markExerciseComplete, isExerciseComplete } = useProgress();
-    const location = useLocation();
-    const exerciseIdRef = React.useRef<string>('');
-    const [isCompleted, setIsCompleted] = useState(false);
-
     const [submitted, setSubmitted] = useState(false);
     const [showingAnswer, setShowingAnswer] = useState(false);
 
@@ -100,14 +89,13 @@ export const Ordering: React.FC<OrderingProps> = ({ items: correctOrder, options
         }
     }, []); // Empty deps - only run once on mount
 
-    // Generate exercise ID
-    useEffect(() => {
-        const lessonPath = location.pathname;
-        const contentId = JSON.stringify(items);
-        const exerciseId = generateStableExerciseId(lessonPath, 'Ordering', contentId);
-        exerciseIdRef.current = exerciseId;
-        setIsCompleted(isExerciseComplete(exerciseId));
-    }, [location.pathname, items, isExerciseComplete]);
+    // The ID used to be hashed from the current item order, which equals this once solved
+    const legacyContentId = useMemo(
+        () => direction === 'vertical' ? JSON.stringify(correctOrder.map((text, idx) => ({ id: `item-${idx}`, text }))) : undefined,
+        [correctOrder, direction]
+    );
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(orderingExercise, { items: correctOrder, id }, legacyContentId);
+    const { registerWrongSubmission, registerHint, completeAttempt } = useAttemptTracker(exerciseIdRef);
 
     const handleDragEnd = (event: DragEndEvent) => {
         const { active, over } = event;
@@ -156,6 +144,7 @@ export const Ordering: React.FC<OrderingProps> = ({ items: correctOrder, options
     };
 
     const checkAnswers = () => {
+        if (!isCorrectOrder) registerWrongSubmission([currentItems.map(i => i.text).join(' / ')]);
         setSubmitted(true);
         setShowingAnswer(false);
     };
@@ -183,6 +172,7 @@ export const Ordering: React.FC<OrderingProps> = ({ items: correctOrder, options
     const { showHints } = useSettings();
 
     const handleShowAnswers = () => {
+        registerHint();
         if (direction === 'vertical') {
             setItems(correctOrder.map((text, idx) => ({ id: `item-${idx}`, text })));
         } else {
@@ -206,10 +196,10 @@ export const Ordering: React.FC<OrderingProps> = ({ items: correctOrder, options
     // Check completion
     useEffect(() => {
         if (submitted && isCorrectOrder && exerciseIdRef.current) {
-            markExerciseComplete(exerciseIdRef.current, location.pathname);
+            completeAttempt();
             setIsCompleted(true);
         }
-    }, [submitted, isCorrectOrder, markExerciseComplete, location.pathname]);
+    }, [submitted, isCorrectOrder, completeAttempt]);
 
     return (
         <div className="my-6 p-6 border border-gray-200 rounded-xl bg-white shadow-sm dark:bg-gray-800 dark:border-gray-700 relative">
@@ -345,3 +335,12 @@ export const Ordering: React.FC<OrderingProps> = ({ items: correctOrder, options
         </div>
     );
 };
+
+export const orderingExercise = defineExercise({
+    type: 'Ordering',
+    component: Ordering,
+    aliases: ['ordering'],
+    countsTowardProgress: true,
+    propsSchema: orderingSchema as ExercisePropsSchema,
+    getContentKey: props => JSON.stringify(props.items)
+});
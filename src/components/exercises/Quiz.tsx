@@ -1,39 +1,30 @@
-import React, { useState, useEffect, useRef, type ReactNode } from 'react';
+import React, { useState, type ReactNode } from 'react';
 import { useSettings } from '../../context/SettingsContext';
-import { useProgress } from '../../context/ProgressContext';
-import { useLocation } from 'react-router-dom';
+import { useExamScore } from '../../context/ExamContext';
 import { clsx } from 'clsx';
 import { Check } from 'lucide-react';
-import { generateStableExerciseId } from '../../utils/exerciseId';
-
-interface QuizProps {
-    answer: string; // "1" or "1,3"
-    children: ReactNode;
-    multiple?: boolean;
-    direction?: 'vertical' | 'horizontal';
-    mode?: 'normal' | 'compact';
-}
-
-export const Quiz: React.FC<QuizProps> = ({ answer, children, multiple = false, direction = 'vertical', mode = 'normal' }) => {
+import { useAttemptTracker } from './hooks/useAttemptTracker';
+import { ExplainMistake } from './ExplainMistake';
+import { getTextFromChildren } from './hooks/useBlanks';
+import { useExerciseId } from './hooks/useExerciseId';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { QuizProps } from './generated/exerciseProps';
+import quizSchema from './schemas/Quiz.schema.json';
+
+export const Quiz: React.FC<QuizProps> = ({ answer, children, multiple = false, direction = 'vertical', mode = 'normal', explanation, id }) => {
     const [selected, setSelected] = useState<string[]>([]);
     const [submitted, setSubmitted] = useState(false);
-    const { markExerciseComplete, isExerciseComplete } = useProgress();
-    const location = useLocation();
-    const exerciseIdRef = useRef<string>('');
-    const [isCompleted, setIsCompleted] = useState(false);
-
-    // Generate stable exercise ID based on content
-    useEffect(() => {
-        const lessonPath = location.pathname;
-        const exerciseId = generateStableExerciseId(lessonPath, 'Quiz', answer);
-        exerciseIdRef.current = exerciseId;
-        setIsCompleted(isExerciseComplete(exerciseId));
-    }, [location.pathname, answer, isExerciseComplete]);
+
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(quizExercise, { answer, id });
+    const { registerWrongSubmission, registerHint, completeAttempt } = useAttemptTracker(exerciseIdRef);
 
     const correctAnswers = answer.split(',').map(s => s.trim());
-    const isCorrect = submitted &&
-        selected.length === correctAnswers.length &&
+    const isSelectionCorrect = selected.length === correctAnswers.length &&
         selected.every(s => correctAnswers.includes(s));
+    const isCorrect = submitted && isSelectionCorrect;
+
+    // In an exam the selection is only scored, without Check or feedback
+    const inExam = useExamScore(isSelectionCorrect ? 1 : 0, 1);
 
     const isMultiple = multiple || answer.includes(',');
 
@@ -57,8 +48,10 @@ export const Quiz: React.FC<QuizProps> = ({ answer, children, multiple = false,
         const isCorrect = selected.length === correctAnswers.length &&
             selected.every(s => correctAnswers.includes(s));
 
-        if (isCorrect && exerciseIdRef.current) {
-            markExerciseComplete(exerciseIdRef.current, location.pathname);
+        if (!isCorrect) {
+            registerWrongSubmission(selected.map(optionText));
+        } else if (exerciseIdRef.current) {
+            completeAttempt();
             setIsCompleted(true);
         }
     };
@@ -71,19 +64,22 @@ export const Quiz: React.FC<QuizProps> = ({ answer, children, multiple = false,
     const { showHints } = useSettings();
 
     const handleShowAnswers = () => {
+        registerHint();
         setSelected(correctAnswers);
         setSubmitted(true);
     };
 
+    const isOption = (child: React.ReactElement) => child.type === Option ||
+        (child.type as any).displayName === 'Option' ||
+        (child.type as any).name === 'Option';
+
     // Recursive function to find options
     const findOptions = (nodes: ReactNode): React.ReactElement[] => {
         let found: React.ReactElement[] = [];
         React.Children.forEach(nodes, (child) => {
             if (!React.isValidElement(child)) return;
 
-            if (child.type === Option ||
-                (child.type as any).displayName === 'Option' ||
-                (child.type as any).name === 'Option') {
+            if (isOption(child)) {
                 found.push(child as React.ReactElement);
             } else if ((child as React.ReactElement<{ children?: ReactNode }>).props.children) {
                 found = [...found, ...findOptions((child as React.ReactElement<{ children?: ReactNode }>).props.children)];
@@ -93,6 +89,23 @@ export const Quiz: React.FC<QuizProps> = ({ answer, children, multiple = false,
     };
 
     const options = findOptions(children);
+    const optionText = (val: string) => getTextFromChildren((options[parseInt(val) - 1] as React.ReactElement<OptionProps> | undefined)?.props.children).trim();
+
+    // Question text without the options
+    const getQuestionText = (nodes: ReactNode): string => {
+        let text = '';
+        React.Children.forEach(nodes, (child) => {
+            if (typeof child === 'string' || typeof child === 'number') text += child;
+            else if (React.isValidElement(child) && !isOption(child)) {
+                text += getQuestionText((child as React.ReactElement<{ children?: ReactNode }>).props.children);
+            }
+        });
+        return text;
+    };
+
+    // Sorted, so the same choice is explained once however it was clicked
+    const learnerAnswer = [...selected].sort((a, b) => parseInt(a) - parseInt(b)).map(optionText).join(', ');
+    const showExplain = submitted && !isCorrect && !inExam && selected.length > 0;
 
     return (
         <div className="my-6 p-6 border border-gray-200 rounded-xl bg-white shadow-sm dark:bg-gray-800 dark:border-gray-700 relative">
@@ -151,7 +164,7 @@ export const Quiz: React.FC<QuizProps> = ({ answer, children, multiple = false,
                 })}
             </div>
 
-            <div className="mt-6 flex gap-4">
+            {!inExam && <div className="mt-6 flex gap-4">
                 {!submitted ? (
                     <>
                         <button
@@ -197,7 +210,20 @@ export const Quiz: React.FC<QuizProps> = ({ answer, children, multiple = false,
                         {isCorrect ? "Correct! 🎉" : "Incorrect, please try again"}
                     </div>
                 )}
-            </div>
+            </div>}
+
+            {showExplain && (
+                <div className="mt-4">
+                    <ExplainMistake
+                        key={learnerAnswer}
+                        exerciseId={exerciseIdRef.current}
+                        source={[getQuestionText(children).trim(), ...options.map((_, idx) => `${idx + 1}. ${optionText(String(idx + 1))}`)].join('\n')}
+                        correctAnswer={correctAnswers.map(optionText).join(', ')}
+                        learnerAnswer={learnerAnswer}
+                        explanation={explanation}
+                    />
+                </div>
+            )}
         </div>
     );
 };
@@ -212,3 +238,13 @@ export const Option: React.FC<OptionProps> = () => {
     return null;
 };
 Option.displayName = 'Option';
+
+export const quizExercise = defineExercise({
+    type: 'Quiz',
+    component: Quiz,
+    aliases: ['quiz'],
+    elements: { Option, option: Option },
+    countsTowardProgress: true,
+    propsSchema: quizSchema as ExercisePropsSchema,
+    getContentKey: props => props.answer
+});
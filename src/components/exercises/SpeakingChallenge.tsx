@@ -4,13 +4,11 @@ import { clsx } from 'clsx';
 import { useSettings } from '../../context/SettingsContext';
 import { useProgress } from '../../context/ProgressContext';
 import { useLocation } from 'react-router-dom';
-import { generateStableExerciseId } from '../../utils/exerciseId';
-
-interface SpeakingChallengeProps {
-    children: ReactNode;
-    hideText?: boolean;
-    lang?: string;
-}
+import { useExerciseId } from './hooks/useExerciseId';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { SpeakingChallengeProps } from './generated/exerciseProps';
+import speakingChallengeSchema from './schemas/SpeakingChallenge.schema.json';
+import { getTextContent } from '../../utils/exerciseContent';
 
 const extractText = (node: ReactNode): string => {
     if (typeof node === 'string') return node;
@@ -23,7 +21,7 @@ const extractText = (node: ReactNode): string => {
     return '';
 };
 
-export const SpeakingChallenge: React.FC<SpeakingChallengeProps> = ({ children, hideText = false, lang }) => {
+export const SpeakingChallenge: React.FC<SpeakingChallengeProps> = ({ children, hideText = false, lang, id }) => {
     const { languageSettings } = useSettings();
 
     // Use global settings as defaults if props not provided
@@ -40,20 +38,12 @@ export const SpeakingChallenge: React.FC<SpeakingChallengeProps> = ({ children,
     const recognitionRef = useRef<any>(null);
     const finalTranscriptRef = useRef('');
 
-    const { markExerciseComplete, isExerciseComplete } = useProgress();
+    const { markExerciseComplete } = useProgress();
     const location = useLocation();
-    const exerciseIdRef = useRef<string>('');
-    const [isCompleted, setIsCompleted] = useState(false);
 
     const text = extractText(children);
 
-    // Generate exercise ID
-    useEffect(() => {
-        const lessonPath = location.pathname;
-        const exerciseId = generateStableExerciseId(lessonPath, 'SpeakingChallenge', text);
-        exerciseIdRef.current = exerciseId;
-        setIsCompleted(isExerciseComplete(exerciseId));
-    }, [location.pathname, text, isExerciseComplete]);
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(speakingChallengeExercise, { children, id });
 
     // Check completion
     useEffect(() => {
@@ -323,3 +313,11 @@ export const SpeakingChallenge: React.FC<SpeakingChallengeProps> = ({ children,
         </div>
     );
 };
+
+export const speakingChallengeExercise = defineExercise({
+    type: 'SpeakingChallenge',
+    component: SpeakingChallenge,
+    countsTowardProgress: true,
+    propsSchema: speakingChallengeSchema as ExercisePropsSchema,
+    getContentKey: props => getTextContent(props.children, ' ')
+});
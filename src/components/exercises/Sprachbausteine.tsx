@@ -0,0 +1,253 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { Check } from 'lucide-react';
+import { useSettings } from '../../context/SettingsContext';
+import { useExamScore } from '../../context/ExamContext';
+import { useAttemptTracker } from './hooks/useAttemptTracker';
+import { useExerciseId } from './hooks/useExerciseId';
+import { getTextFromChildren } from './hooks/useBlanks';
+import { AnswerSheet, LETTERS } from './AnswerSheet';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { SprachbausteineProps } from './generated/exerciseProps';
+import sprachbausteineSchema from './schemas/Sprachbausteine.schema.json';
+import { getTextContent } from '../../utils/exerciseContent';
+
+const GAP_PATTERN = /(\[.*?\])/g;
+
+// Bank words are written in lower case, a gap at the start of a sentence is capitalized
+const findWord = (words: string[], answer: string) =>
+    words.findIndex(word => word.toLowerCase() === answer.trim().toLowerCase());
+
+export const Sprachbausteine: React.FC<SprachbausteineProps> = ({ children, words, start = 1, id }) => {
+    const answers = useMemo(
+        () => getTextFromChildren(children).split(GAP_PATTERN)
+            .filter(part => part.startsWith('[') && part.endsWith(']'))
+            .map(part => findWord(words, part.slice(1, -1))),
+        [children, words]
+    );
+
+    // Index into words for every gap, null while empty
+    const [filled, setFilled] = useState<(number | null)[]>(() => answers.map(() => null));
+    const [focused, setFocused] = useState<number | null>(null);
+    const [submitted, setSubmitted] = useState(false);
+    const gapRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(sprachbausteineExercise, { children, words, id });
+    const { registerWrongSubmission, registerHint, completeAttempt } = useAttemptTracker(exerciseIdRef);
+    const { showHints } = useSettings();
+
+    const isGapCorrect = (gap: number) => filled[gap] !== null && filled[gap] === answers[gap];
+    const correctCount = answers.filter((_, gap) => isGapCorrect(gap)).length;
+    const allCorrect = correctCount === answers.length;
+
+    // In an exam every correct gap scores, without Check or feedback
+    const inExam = useExamScore(correctCount, answers.length);
+
+    const focusGap = (gap: number) => {
+        if (gap < 0 || gap >= answers.length) return;
+        gapRefs.current[gap]?.focus();
+    };
+
+    // A word can only be in one gap: putting it somewhere else empties its old gap
+    const fillGap = (gap: number, word: number | null) => {
+        if (submitted) return;
+        setFilled(prev => prev.map((current, index) => {
+            if (index === gap) return word;
+            return word !== null && current === word ? null : current;
+        }));
+    };
+
+    const handleGapKeyDown = (gap: number, e: React.KeyboardEvent) => {
+        if (submitted || e.ctrlKey || e.metaKey || e.altKey) return;
+        const key = e.key.toLowerCase();
+        const word = key.length === 1 ? LETTERS.indexOf(key) : -1;
+
+        if (word >= 0 && word < words.length) {
+            e.preventDefault();
+            fillGap(gap, word);
+            focusGap(gap + 1);
+        } else if (e.key === 'Backspace' || e.key === 'Delete') {
+            e.preventDefault();
+            fillGap(gap, null);
+        } else if (e.key === 'ArrowRight' || e.key === 'ArrowDown') {
+            e.preventDefault();
+            focusGap(gap + 1);
+        } else if (e.key === 'ArrowLeft' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            focusGap(gap - 1);
+        }
+    };
+
+    // Clicking a word in the bank fills the focused gap, or else the first empty one
+    const handleWordClick = (word: number) => {
+        const gap = focused ?? filled.findIndex(current => current === null);
+        if (gap < 0) return;
+        fillGap(gap, word);
+        focusGap(gap + 1);
+    };
+
+    const checkAnswers = () => {
+        setSubmitted(true);
+        setFocused(null);
+        if (!allCorrect) {
+            registerWrongSubmission(filled.map((word, gap) => word === null || isGapCorrect(gap) ? '' : words[word]));
+        } else if (exerciseIdRef.current) {
+            completeAttempt();
+            setIsCompleted(true);
+        }
+    };
+
+    const reset = () => {
+        setFilled(answers.map(() => null));
+        setSubmitted(false);
+    };
+
+    const handleShowAnswers = () => {
+        registerHint();
+        setFilled(answers.map(answer => answer >= 0 ? answer : null));
+        setSubmitted(true);
+        setFocused(null);
+    };
+
+    const renderGap = (gap: number) => {
+        const word = filled[gap];
+        const correct = submitted && isGapCorrect(gap);
+        const wrong = submitted && !correct;
+        return (
+            <button
+                key={`gap-${gap}`}
+                ref={element => { gapRefs.current[gap] = element; }}
+                onFocus={() => setFocused(gap)}
+                onBlur={() => setFocused(current => current === gap ? null : current)}
+                onKeyDown={e => handleGapKeyDown(gap, e)}
+                disabled={submitted}
+                title="Type the letter of a word"
+                className={clsx(
+                    "inline-flex items-baseline gap-1 mx-1 px-2 min-w-[90px] border-b-2 rounded-t align-baseline outline-none transition-colors",
+                    correct ? "border-green-500 bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400" :
+                        wrong ? "border-red-500 bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400" :
+                            focused === gap ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20" :
+                                "border-gray-400 bg-gray-50 hover:bg-gray-100 dark:border-gray-500 dark:bg-gray-900/50 dark:hover:bg-gray-700"
+                )}
+            >
+                <span className="text-xs font-bold text-gray-500 dark:text-gray-400">{start + gap}</span>
+                {word !== null && <span>{LETTERS[word]}) {words[word]}</span>}
+            </button>
+        );
+    };
+
+    // Replace the [answer] gaps in the text with gap buttons, keeping the markup around them
+    let gapIndex = 0;
+    const processNode = (node: React.ReactNode): React.ReactNode => React.Children.map(node, child => {
+        if (typeof child === 'string') {
+            return child.split(GAP_PATTERN).map((part, i) => {
+                if (part.startsWith('[') && part.endsWith(']') && gapIndex < answers.length) {
+                    return <React.Fragment key={i}>{renderGap(gapIndex++)}</React.Fragment>;
+                }
+                return part;
+            });
+        }
+        if (React.isValidElement(child)) {
+            const props = child.props as { children?: React.ReactNode };
+            if (props.children) {
+                return React.cloneElement(child as React.ReactElement<{ children?: React.ReactNode }>, undefined, processNode(props.children));
+            }
+        }
+        return child;
+    });
+    const content = processNode(children);
+
+    const usedWords = new Set(filled.filter((word): word is number => word !== null));
+
+    return (
+        <div className="my-6 p-6 border border-gray-200 rounded-xl bg-white shadow-sm dark:bg-gray-800 dark:border-gray-700 relative">
+            {isCompleted && (
+                <div className="absolute -top-3 -right-3 bg-green-500 text-white rounded-full p-2 shadow-lg z-10">
+                    <Check size={20} />
+                </div>
+            )}
+
+            <div className="mb-6 leading-loose text-lg text-gray-800 dark:text-gray-200">
+                {content}
+            </div>
+
+            <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-dashed border-gray-300 dark:border-gray-700">
+                <div className="text-sm font-medium text-gray-500 mb-2 uppercase tracking-wider">Words:</div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-2">
+                    {words.map((word, index) => (
+                        <button
+                            key={index}
+                            // Keep the focus on the gap the word goes into
+                            onMouseDown={e => e.preventDefault()}
+                            onClick={() => handleWordClick(index)}
+                            disabled={submitted}
+                            className={clsx(
+                                "text-left px-2 py-1 rounded border transition-colors",
+                                usedWords.has(index)
+                                    ? "border-gray-200 text-gray-400 line-through dark:border-gray-700 dark:text-gray-500"
+                                    : "border-blue-200 bg-white hover:bg-blue-50 text-gray-800 dark:border-blue-800 dark:bg-gray-800 dark:hover:bg-blue-900/30 dark:text-gray-200"
+                            )}
+                        >
+                            <span className="font-bold mr-1">{LETTERS[index]})</span>
+                            {word}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <AnswerSheet
+                start={start}
+                columns={words.length}
+                marked={filled}
+                onMark={fillGap}
+                solution={submitted ? answers : undefined}
+            />
+
+            {!inExam && <div className="flex gap-4 items-center flex-wrap">
+                {!submitted ? (
+                    <>
+                        <button
+                            onClick={checkAnswers}
+                            disabled={usedWords.size === 0}
+                            className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm border border-transparent"
+                        >
+                            Check
+                        </button>
+                        {showHints && (
+                            <button
+                                onClick={handleShowAnswers}
+                                className="px-4 py-2 text-blue-600 bg-blue-50 border border-blue-200 hover:bg-blue-100 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800 dark:hover:bg-blue-900/30 rounded-lg transition-colors font-medium"
+                            >
+                                Show answers
+                            </button>
+                        )}
+                    </>
+                ) : (
+                    <>
+                        <button
+                            onClick={reset}
+                            className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg font-medium hover:bg-gray-300 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 transition-colors"
+                        >
+                            Try again
+                        </button>
+                        <span className={clsx(
+                            "font-medium ml-auto",
+                            allCorrect ? "text-green-600" : "text-red-600"
+                        )}>
+                            {allCorrect ? "Correct! 🎉" : `${correctCount} of ${answers.length} correct`}
+                        </span>
+                    </>
+                )}
+            </div>}
+        </div>
+    );
+};
+
+export const sprachbausteineExercise = defineExercise({
+    type: 'Sprachbausteine',
+    component: Sprachbausteine,
+    aliases: ['sprachbausteine'],
+    countsTowardProgress: true,
+    propsSchema: sprachbausteineSchema as ExercisePropsSchema,
+    getContentKey: props => `${(props.words ?? []).join('|')}\n${getTextContent(props.children, '')}`
+});
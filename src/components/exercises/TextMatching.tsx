@@ -0,0 +1,226 @@
+import React, { useState, type ReactNode } from 'react';
+import { clsx } from 'clsx';
+import { Check } from 'lucide-react';
+import { useSettings } from '../../context/SettingsContext';
+import { useExamScore } from '../../context/ExamContext';
+import { useAttemptTracker } from './hooks/useAttemptTracker';
+import { useExerciseId } from './hooks/useExerciseId';
+import { getTextContent } from '../../utils/exerciseContent';
+import { AnswerSheet, LETTERS } from './AnswerSheet';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { TextMatchingProps } from './generated/exerciseProps';
+import textMatchingSchema from './schemas/TextMatching.schema.json';
+
+export interface PassageProps {
+    answer: string; // Letter of the matching headline, e.g. "c"
+    children: ReactNode;
+}
+
+// Passages are read by TextMatching, they don't render themselves
+export const Passage: React.FC<PassageProps> = () => {
+    return null;
+};
+Passage.displayName = 'Passage';
+
+const findPassages = (nodes: ReactNode): React.ReactElement<PassageProps>[] => {
+    let found: React.ReactElement<PassageProps>[] = [];
+    React.Children.forEach(nodes, child => {
+        if (!React.isValidElement(child)) return;
+        if (child.type === Passage) {
+            found.push(child as React.ReactElement<PassageProps>);
+        } else if ((child as React.ReactElement<{ children?: ReactNode }>).props.children) {
+            found = [...found, ...findPassages((child as React.ReactElement<{ children?: ReactNode }>).props.children)];
+        }
+    });
+    return found;
+};
+
+// Answer and text of every passage, for the exercise ID. Matched by the answer
+// prop rather than the element type: the exercise manifest renders Passage with
+// a stand-in component.
+const getPassageContent = (nodes: ReactNode): string[] => {
+    const content: string[] = [];
+    React.Children.forEach(nodes, child => {
+        if (!React.isValidElement(child)) return;
+        const props = child.props as { answer?: unknown; children?: ReactNode };
+        if (props.answer !== undefined) content.push(`${props.answer}: ${getTextContent(props.children, ' ')}`);
+        else content.push(...getPassageContent(props.children));
+    });
+    return content;
+};
+
+export const TextMatching: React.FC<TextMatchingProps> = ({ children, headlines, start = 1, id }) => {
+    const passages = findPassages(children);
+    const answers = passages.map(passage => LETTERS.indexOf(String(passage.props.answer).trim().toLowerCase()));
+
+    // Headline chosen for every text, null while none is
+    const [assigned, setAssigned] = useState<(number | null)[]>(() => passages.map(() => null));
+    const [submitted, setSubmitted] = useState(false);
+
+    // IDs used to be hashed from the headlines alone
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(textMatchingExercise, { children, headlines, id }, JSON.stringify(headlines));
+    const { registerWrongSubmission, registerHint, completeAttempt } = useAttemptTracker(exerciseIdRef);
+    const { showHints } = useSettings();
+
+    const isTextCorrect = (text: number) => assigned[text] !== null && assigned[text] === answers[text];
+    const correctCount = answers.filter((_, text) => isTextCorrect(text)).length;
+    const allCorrect = correctCount === answers.length;
+
+    // In an exam every correctly matched text scores, without Check or feedback
+    const inExam = useExamScore(correctCount, answers.length);
+
+    // Each headline fits one text at most: choosing it again moves it
+    const assign = (text: number, headline: number | null) => {
+        if (submitted) return;
+        setAssigned(prev => prev.map((current, index) => {
+            if (index === text) return headline;
+            return headline !== null && current === headline ? null : current;
+        }));
+    };
+
+    const checkAnswers = () => {
+        setSubmitted(true);
+        if (!allCorrect) {
+            registerWrongSubmission(assigned.map((headline, text) => headline === null || isTextCorrect(text) ? '' : headlines[headline]));
+        } else if (exerciseIdRef.current) {
+            completeAttempt();
+            setIsCompleted(true);
+        }
+    };
+
+    const reset = () => {
+        setAssigned(passages.map(() => null));
+        setSubmitted(false);
+    };
+
+    const handleShowAnswers = () => {
+        registerHint();
+        setAssigned(answers.map(answer => answer >= 0 ? answer : null));
+        setSubmitted(true);
+    };
+
+    const usedHeadlines = new Set(assigned.filter((headline): headline is number => headline !== null));
+
+    return (
+        <div className="my-6 p-6 border border-gray-200 rounded-xl bg-white shadow-sm dark:bg-gray-800 dark:border-gray-700 relative">
+            {isCompleted && (
+                <div className="absolute -top-3 -right-3 bg-green-500 text-white rounded-full p-2 shadow-lg z-10">
+                    <Check size={20} />
+                </div>
+            )}
+
+            <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-dashed border-gray-300 dark:border-gray-700">
+                <div className="text-sm font-medium text-gray-500 mb-2 uppercase tracking-wider">Headlines:</div>
+                <ol className="space-y-1 list-none p-0 m-0">
+                    {headlines.map((headline, index) => (
+                        <li
+                            key={index}
+                            className={clsx(
+                                "m-0",
+                                usedHeadlines.has(index) ? "text-gray-400 line-through dark:text-gray-500" : "text-gray-800 dark:text-gray-200"
+                            )}
+                        >
+                            <span className="font-bold mr-2">{LETTERS[index]})</span>
+                            {headline}
+                        </li>
+                    ))}
+                </ol>
+            </div>
+
+            <div className="space-y-4 mb-6">
+                {passages.map((passage, text) => {
+                    const headline = assigned[text];
+                    const correct = submitted && isTextCorrect(text);
+                    const wrong = submitted && !correct;
+                    return (
+                        <div
+                            key={text}
+                            className={clsx(
+                                "p-4 rounded-lg border-2 transition-colors",
+                                correct ? "border-green-500 bg-green-50 dark:bg-green-900/20" :
+                                    wrong ? "border-red-500 bg-red-50 dark:bg-red-900/20" :
+                                        "border-gray-200 dark:border-gray-700"
+                            )}
+                        >
+                            <div className="flex items-center gap-3 mb-2">
+                                <span className="font-bold text-gray-600 dark:text-gray-300">{start + text}</span>
+                                <select
+                                    value={headline ?? ''}
+                                    onChange={e => assign(text, e.target.value === '' ? null : Number(e.target.value))}
+                                    disabled={submitted}
+                                    className="flex-1 min-w-0 px-2 py-1 border rounded bg-white border-gray-300 text-gray-800 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-200"
+                                >
+                                    <option value="">Choose a headline…</option>
+                                    {headlines.map((option, index) => (
+                                        <option key={index} value={index}>{LETTERS[index]}) {option}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            {wrong && answers[text] >= 0 && (
+                                <div className="mb-2 text-sm text-red-600 dark:text-red-400">
+                                    Correct: {LETTERS[answers[text]]}) {headlines[answers[text]]}
+                                </div>
+                            )}
+                            <div className="text-gray-800 dark:text-gray-200">{passage.props.children}</div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <AnswerSheet
+                start={start}
+                columns={headlines.length}
+                marked={assigned}
+                onMark={assign}
+                solution={submitted ? answers : undefined}
+            />
+
+            {!inExam && <div className="flex gap-4 items-center flex-wrap">
+                {!submitted ? (
+                    <>
+                        <button
+                            onClick={checkAnswers}
+                            disabled={usedHeadlines.size === 0}
+                            className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm border border-transparent"
+                        >
+                            Check
+                        </button>
+                        {showHints && (
+                            <button
+                                onClick={handleShowAnswers}
+                                className="px-4 py-2 text-blue-600 bg-blue-50 border border-blue-200 hover:bg-blue-100 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800 dark:hover:bg-blue-900/30 rounded-lg transition-colors font-medium"
+                            >
+                                Show answers
+                            </button>
+                        )}
+                    </>
+                ) : (
+                    <>
+                        <button
+                            onClick={reset}
+                            className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg font-medium hover:bg-gray-300 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 transition-colors"
+                        >
+                            Try again
+                        </button>
+                        <span className={clsx(
+                            "font-medium ml-auto",
+                            allCorrect ? "text-green-600" : "text-red-600"
+                        )}>
+                            {allCorrect ? "Correct! 🎉" : `${correctCount} of ${answers.length} texts correct`}
+                        </span>
+                    </>
+                )}
+            </div>}
+        </div>
+    );
+};
+
+export const textMatchingExercise = defineExercise({
+    type: 'TextMatching',
+    component: TextMatching,
+    aliases: ['textmatching'],
+    elements: { Passage, passage: Passage },
+    countsTowardProgress: true,
+    propsSchema: textMatchingSchema as ExercisePropsSchema,
+    getContentKey: props => JSON.stringify({ headlines: props.headlines, passages: getPassageContent(props.children) })
+});
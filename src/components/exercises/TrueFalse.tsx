@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { clsx } from 'clsx';
+import { Check } from 'lucide-react';
+import { useSettings } from '../../context/SettingsContext';
+import { useExamScore } from '../../context/ExamContext';
+import { useAttemptTracker } from './hooks/useAttemptTracker';
+import { useExerciseId } from './hooks/useExerciseId';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { TrueFalseProps, TrueFalseStatement } from './generated/exerciseProps';
+import trueFalseSchema from './schemas/TrueFalse.schema.json';
+
+type Judgement = TrueFalseStatement['answer'];
+
+const JUDGEMENTS: Judgement[] = ['true', 'false', 'not-given'];
+
+// telc wording
+const DEFAULT_LABELS = ['richtig', 'falsch', 'steht nicht im Text'];
+
+export const TrueFalse: React.FC<TrueFalseProps> = ({ children, statements, notGiven = false, labels = DEFAULT_LABELS, start = 1, id }) => {
+    const [selected, setSelected] = useState<(Judgement | null)[]>(() => statements.map(() => null));
+    const [submitted, setSubmitted] = useState(false);
+
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(trueFalseExercise, { statements, id });
+    const { registerWrongSubmission, registerHint, completeAttempt } = useAttemptTracker(exerciseIdRef);
+    const { showHints } = useSettings();
+
+    const options = notGiven ? JUDGEMENTS : JUDGEMENTS.slice(0, 2);
+    const labelOf = (judgement: Judgement) => labels[JUDGEMENTS.indexOf(judgement)] ?? DEFAULT_LABELS[JUDGEMENTS.indexOf(judgement)];
+
+    const isStatementCorrect = (index: number) => selected[index] === statements[index].answer;
+    const correctCount = statements.filter((_, index) => isStatementCorrect(index)).length;
+    const allCorrect = correctCount === statements.length;
+
+    // In an exam every correct judgement scores, without Check or feedback
+    const inExam = useExamScore(correctCount, statements.length);
+
+    const select = (index: number, judgement: Judgement) => {
+        if (submitted) return;
+        setSelected(prev => prev.map((current, i) => i === index ? judgement : current));
+    };
+
+    const checkAnswers = () => {
+        setSubmitted(true);
+        if (!allCorrect) {
+            registerWrongSubmission(selected.map((judgement, index) =>
+                judgement === null || isStatementCorrect(index) ? '' : `${statements[index].text} → ${labelOf(judgement)}`
+            ));
+        } else if (exerciseIdRef.current) {
+            completeAttempt();
+            setIsCompleted(true);
+        }
+    };
+
+    const reset = () => {
+        setSelected(statements.map(() => null));
+        setSubmitted(false);
+    };
+
+    const handleShowAnswers = () => {
+        registerHint();
+        setSelected(statements.map(statement => statement.answer));
+        setSubmitted(true);
+    };
+
+    return (
+        <div className="my-6 p-6 border border-gray-200 rounded-xl bg-white shadow-sm dark:bg-gray-800 dark:border-gray-700 relative">
+            {isCompleted && (
+                <div className="absolute -top-3 -right-3 bg-green-500 text-white rounded-full p-2 shadow-lg z-10">
+                    <Check size={20} />
+                </div>
+            )}
+
+            {children && (
+                <div className="mb-6 pl-4 border-l-4 border-gray-200 dark:border-gray-600 text-gray-800 dark:text-gray-200">
+                    {children}
+                </div>
+            )}
+
+            <div className="overflow-x-auto mb-6">
+                <table className="w-full text-sm border-collapse">
+                    <thead>
+                        <tr className="text-gray-500 dark:text-gray-400">
+                            <th className="pb-2" />
+                            <th className="pb-2" />
+                            {options.map(judgement => (
+                                <th key={judgement} className="pb-2 px-2 text-center font-medium whitespace-nowrap">{labelOf(judgement)}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {statements.map((statement, index) => {
+                            const correct = submitted && isStatementCorrect(index);
+                            const wrong = submitted && !correct;
+                            return (
+                                <tr
+                                    key={index}
+                                    className={clsx(
+                                        "border-t border-gray-200 dark:border-gray-700",
+                                        correct && "bg-green-50 dark:bg-green-900/20",
+                                        wrong && "bg-red-50 dark:bg-red-900/20"
+                                    )}
+                                >
+                                    <td className="py-2 pr-3 align-top font-bold text-gray-600 dark:text-gray-300">{start + index}</td>
+                                    <td className="py-2 pr-3 text-gray-800 dark:text-gray-200">
+                                        {statement.text}
+                                        {wrong && (
+                                            <div className="text-xs text-red-600 dark:text-red-400">Correct: {labelOf(statement.answer)}</div>
+                                        )}
+                                    </td>
+                                    {options.map(judgement => {
+                                        const isSelected = selected[index] === judgement;
+                                        return (
+                                            <td key={judgement} className="py-2 px-2 text-center">
+                                                <button
+                                                    onClick={() => select(index, judgement)}
+                                                    disabled={submitted}
+                                                    aria-label={`${start + index}: ${labelOf(judgement)}`}
+                                                    className={clsx(
+                                                        "w-5 h-5 rounded-full border-2 transition-colors",
+                                                        submitted && judgement === statement.answer ? "border-green-500 bg-green-500" :
+                                                            submitted && isSelected ? "border-red-500 bg-red-500" :
+                                                                isSelected ? "border-blue-600 bg-blue-600" :
+                                                                    "border-gray-300 hover:border-blue-400 dark:border-gray-600"
+                                                    )}
+                                                />
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            {!inExam && <div className="flex gap-4 items-center flex-wrap">
+                {!submitted ? (
+                    <>
+                        <button
+                            onClick={checkAnswers}
+                            disabled={selected.every(judgement => judgement === null)}
+                            className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm border border-transparent"
+                        >
+                            Check
+                        </button>
+                        {showHints && (
+                            <button
+                                onClick={handleShowAnswers}
+                                className="px-4 py-2 text-blue-600 bg-blue-50 border border-blue-200 hover:bg-blue-100 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800 dark:hover:bg-blue-900/30 rounded-lg transition-colors font-medium"
+                            >
+                                Show answers
+                            </button>
+                        )}
+                    </>
+                ) : (
+                    <>
+                        <button
+                            onClick={reset}
+                            className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg font-medium hover:bg-gray-300 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 transition-colors"
+                        >
+                            Try again
+                        </button>
+                        <span className={clsx(
+                            "font-medium ml-auto",
+                            allCorrect ? "text-green-600" : "text-red-600"
+                        )}>
+                            {allCorrect ? "Correct! 🎉" : `${correctCount} of ${statements.length} statements correct`}
+                        </span>
+                    </>
+                )}
+            </div>}
+        </div>
+    );
+};
+
+export const trueFalseExercise = defineExercise({
+    type: 'TrueFalse',
+    component: TrueFalse,
+    aliases: ['truefalse'],
+    countsTowardProgress: true,
+    propsSchema: trueFalseSchema as ExercisePropsSchema,
+    getContentKey: props => JSON.stringify(props.statements)
+});
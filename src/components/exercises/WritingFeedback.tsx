@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { clsx } from 'clsx';
+import { Loader2, Settings, Sparkles } from 'lucide-react';
+import { useSettings } from '../../context/SettingsContext';
+import { AISettingsModal } from '../settings/AISettingsModal';
+import { fetchAIConfig } from '../../lib/ai/aiClient';
+import {
+    annotateText,
+    requestWritingFeedback,
+    ERROR_CATEGORIES,
+    type Criterion,
+    type ErrorCategory,
+    type WritingFeedback as Feedback
+} from '../../lib/ai/writingFeedback';
+
+interface WritingFeedbackProps {
+    task: string;
+    points: string[];
+    minWords?: number;
+    maxWords?: number;
+    text: string;
+}
+
+const CATEGORY_LABELS: Record<ErrorCategory, string> = {
+    'case': 'Case',
+    'word-order': 'Word order',
+    'connectors': 'Konnektoren',
+    'verb': 'Verb forms',
+    'spelling': 'Spelling',
+    'vocabulary': 'Vocabulary',
+    'other': 'Other'
+};
+
+const CATEGORY_STYLES: Record<ErrorCategory, string> = {
+    'case': 'decoration-red-500 bg-red-50 dark:bg-red-900/20',
+    'word-order': 'decoration-orange-500 bg-orange-50 dark:bg-orange-900/20',
+    'connectors': 'decoration-purple-500 bg-purple-50 dark:bg-purple-900/20',
+    'verb': 'decoration-blue-500 bg-blue-50 dark:bg-blue-900/20',
+    'spelling': 'decoration-yellow-500 bg-yellow-50 dark:bg-yellow-900/20',
+    'vocabulary': 'decoration-teal-500 bg-teal-50 dark:bg-teal-900/20',
+    'other': 'decoration-gray-500 bg-gray-100 dark:bg-gray-700'
+};
+
+const CRITERION_LABELS: Record<Criterion, string> = {
+    content: 'Content (Leitpunkte)',
+    communication: 'Communicative design',
+    accuracy: 'Formal accuracy'
+};
+
+const BAND_DESCRIPTIONS = {
+    A: 'fully appropriate',
+    B: 'largely appropriate',
+    C: 'partly appropriate',
+    D: 'not appropriate'
+};
+
+type FeedbackState =
+    | { status: 'idle' }
+    | { status: 'loading' }
+    | { status: 'unconfigured' }
+    | { status: 'error'; message: string }
+    | { status: 'done'; feedback: Feedback; text: string };
+
+// Sends the learner's text to the AI configured on the server and shows the
+// corrections in the text, the telc criteria bands and the corrected version
+export const WritingFeedback: React.FC<WritingFeedbackProps> = ({ task, points, minWords, maxWords, text }) => {
+    const { languageSettings } = useSettings();
+    const [state, setState] = useState<FeedbackState>({ status: 'idle' });
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+    const requestFeedback = async () => {
+        setState({ status: 'loading' });
+        try {
+            const config = await fetchAIConfig();
+            if (!config.hasKey) {
+                setState({ status: 'unconfigured' });
+                return;
+            }
+            const feedback = await requestWritingFeedback({
+                task,
+                points,
+                minWords,
+                maxWords,
+                text,
+                translationLang: languageSettings.translationLang
+            });
+            setState({ status: 'done', feedback, text });
+        } catch (error) {
+            console.error('Error getting writing feedback:', error);
+            setState({ status: 'error', message: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    // Feedback belongs to the text it was given for
+    const isOutdated = state.status === 'done' && state.text !== text;
+
+    return (
+        <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+            {(state.status !== 'done' || isOutdated) && (
+                <button
+                    onClick={requestFeedback}
+                    disabled={state.status === 'loading' || !text.trim()}
+                    className="flex items-center gap-2 px-4 py-2 text-blue-600 bg-blue-50 border border-blue-200 hover:bg-blue-100 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800 dark:hover:bg-blue-900/30 rounded-lg transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {state.status === 'loading' ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+                    {isOutdated ? 'Get AI feedback on the new version' : 'Get AI feedback'}
+                </button>
+            )}
+
+            {state.status === 'unconfigured' && (
+                <div className="mt-3 text-sm text-gray-600 dark:text-gray-400 flex items-center gap-3 flex-wrap">
+                    No AI provider is set up yet.
+                    <button
+                        onClick={() => setIsSettingsOpen(true)}
+                        className="flex items-center gap-1.5 text-blue-600 hover:text-blue-700 dark:text-blue-400 font-medium"
+                    >
+                        <Settings size={14} />
+                        Set up AI
+                    </button>
+                </div>
+            )}
+
+            {state.status === 'error' && (
+                <div className="mt-3 text-sm text-red-600 dark:text-red-400">
+                    Could not get feedback: {state.message}
+                </div>
+            )}
+
+            {state.status === 'done' && <FeedbackResult feedback={state.feedback} text={state.text} />}
+
+            <AISettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+        </div>
+    );
+};
+
+const FeedbackResult: React.FC<{ feedback: Feedback; text: string }> = ({ feedback, text }) => {
+    const { segments, unplaced } = annotateText(text, feedback.annotations);
+    const counts = ERROR_CATEGORIES
+        .map(category => ({ category, count: feedback.annotations.filter(a => a.category === category).length }))
+        .filter(({ count }) => count > 0);
+
+    return (
+        <div className="mt-4 space-y-6">
+            <div className="flex items-center gap-4">
+                <span className="flex items-center justify-center w-12 h-12 rounded-full bg-blue-600 text-white text-2xl font-bold">
+                    {feedback.band}
+                </span>
+                <div>
+                    <div className="font-medium text-gray-900 dark:text-white">Estimated telc band {feedback.band}</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">{BAND_DESCRIPTIONS[feedback.band]}, an estimate, not an official score</div>
+                </div>
+            </div>
+
+            {feedback.criteria.length > 0 && (
+                <table className="w-full text-sm text-left">
+                    <tbody>
+                        {feedback.criteria.map(rating => (
+                            <tr key={rating.criterion} className="border-t border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                                <td className="py-2 pr-4 font-medium whitespace-nowrap align-top">{CRITERION_LABELS[rating.criterion]}</td>
+                                <td className="py-2 pr-4 font-bold align-top">{rating.band}</td>
+                                <td className="py-2">{rating.comment}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <div>
+                <div className="flex items-center gap-2 flex-wrap mb-2">
+                    <span className="text-sm font-medium text-gray-500 uppercase tracking-wider">Your text:</span>
+                    {counts.map(({ category, count }) => (
+                        <span key={category} className={clsx("text-xs px-2 py-0.5 rounded underline decoration-2", CATEGORY_STYLES[category])}>
+                            {CATEGORY_LABELS[category]} {count}
+                        </span>
+                    ))}
+                </div>
+                <div className="p-3 whitespace-pre-wrap rounded-lg border border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200 leading-relaxed">
+                    {segments.map((segment, index) => segment.annotation ? (
+                        <span
+                            key={index}
+                            title={`${CATEGORY_LABELS[segment.annotation.category]}: ${segment.annotation.correction}\n${segment.annotation.explanation}`}
+                            className={clsx("underline decoration-2 underline-offset-2 rounded-sm cursor-help", CATEGORY_STYLES[segment.annotation.category])}
+                        >
+                            {segment.text}
+                        </span>
+                    ) : (
+                        <React.Fragment key={index}>{segment.text}</React.Fragment>
+                    ))}
+                </div>
+            </div>
+
+            {feedback.annotations.length > 0 && (
+                <ol className="space-y-2 text-sm list-decimal pl-5 m-0">
+                    {feedback.annotations.map((annotation, index) => (
+                        <li key={index} className="m-0 text-gray-700 dark:text-gray-300">
+                            <span className="line-through text-red-600 dark:text-red-400">{annotation.original}</span>
+                            {' → '}
+                            <span className="font-medium text-green-700 dark:text-green-400">{annotation.correction}</span>
+                            <span className="ml-2 text-xs text-gray-500">{CATEGORY_LABELS[annotation.category]}</span>
+                            {unplaced.includes(annotation) && <span className="ml-2 text-xs text-gray-400">(not found in the text)</span>}
+                            {annotation.explanation && <div className="text-gray-500 dark:text-gray-400">{annotation.explanation}</div>}
+                        </li>
+                    ))}
+                </ol>
+            )}
+
+            <details>
+                <summary className="cursor-pointer text-sm font-medium text-gray-500 uppercase tracking-wider">Corrected text</summary>
+                <div className="mt-2 p-3 whitespace-pre-wrap rounded-lg bg-green-50 dark:bg-green-900/20 text-gray-800 dark:text-gray-200">
+                    {feedback.correctedText}
+                </div>
+            </details>
+
+            {feedback.summary && <p className="text-gray-700 dark:text-gray-300">{feedback.summary}</p>}
+        </div>
+    );
+};
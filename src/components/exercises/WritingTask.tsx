@@ -0,0 +1,288 @@
+import React, { useEffect, useState } from 'react';
+import { clsx } from 'clsx';
+import { Check, Clock } from 'lucide-react';
+import { useProgress } from '../../context/ProgressContext';
+import { useProfile } from '../../context/ProfileContext';
+import { useExamSectionEnd, useInExam } from '../../context/ExamContext';
+import { useAttemptTracker } from './hooks/useAttemptTracker';
+import { useExerciseId } from './hooks/useExerciseId';
+import { WritingFeedback } from './WritingFeedback';
+import { defineExercise, type ExercisePropsSchema } from '../../lib/exercises/exerciseDefinition';
+import type { WritingTaskProps } from './generated/exerciseProps';
+import writingTaskSchema from './schemas/WritingTask.schema.json';
+import { getTextContent } from '../../utils/exerciseContent';
+
+// Unsent text of every writing task, per exercise ID. Stored per profile through storageKey()
+const WRITING_DRAFT_KEY = 'yazula_writing_draft';
+
+// What telc looks at besides the Leitpunkte: communicative design and formal accuracy
+const DEFAULT_CRITERIA = [
+    'Salutation, greeting and closing fit the recipient (Anrede, Gruß)',
+    'The register (du or Sie) is the same throughout',
+    'Sentences are linked with connectors (weil, deshalb, außerdem, …)',
+    'The text is divided into paragraphs',
+    'I read the text again for grammar and spelling'
+];
+
+const countWords = (text: string) =>
+    text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+
+const formatCountdown = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const formatWordTarget = (minWords?: number, maxWords?: number) => {
+    if (minWords !== undefined && maxWords !== undefined) return `${minWords}–${maxWords} words`;
+    if (minWords !== undefined) return `at least ${minWords} words`;
+    if (maxWords !== undefined) return `at most ${maxWords} words`;
+    return 'words';
+};
+
+export const WritingTask: React.FC<WritingTaskProps> = ({ children, points = [], minWords, maxWords, minutes, criteria = DEFAULT_CRITERIA, id }) => {
+    const [text, setText] = useState('');
+    const [phase, setPhase] = useState<'writing' | 'assessing' | 'submitted'>('writing');
+    const [checked, setChecked] = useState<Set<string>>(new Set());
+    const [deadline, setDeadline] = useState<number | null>(null);
+    const [now, setNow] = useState(Date.now());
+
+    const { exerciseIdRef, isCompleted, setIsCompleted } = useExerciseId(writingTaskExercise, { children, points, id });
+    const { completeAttempt } = useAttemptTracker(exerciseIdRef);
+    const { getAttempts } = useProgress();
+    const { storageKey } = useProfile();
+    // The exam has its own timer and no self-assessment, the text is only written
+    const inExam = useInExam();
+
+    const exerciseId = exerciseIdRef.current;
+    const draftKey = exerciseId ? storageKey(`${WRITING_DRAFT_KEY}:${exerciseId}`) : null;
+
+    useEffect(() => {
+        if (draftKey) setText(localStorage.getItem(draftKey) ?? '');
+    }, [draftKey]);
+
+    const updateText = (value: string) => {
+        setText(value);
+        if (!draftKey) return;
+        if (value.trim()) localStorage.setItem(draftKey, value);
+        else localStorage.removeItem(draftKey);
+    };
+
+    const secondsLeft = deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000));
+    const timerRunning = secondsLeft !== null && secondsLeft > 0;
+
+    useEffect(() => {
+        if (!timerRunning) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [timerRunning]);
+
+    const startTimer = () => {
+        const startedAt = Date.now();
+        setNow(startedAt);
+        setDeadline(startedAt + minutes! * 60 * 1000);
+    };
+
+    const wordCount = countWords(text);
+    const tooShort = minWords !== undefined && wordCount < minWords;
+    const tooLong = maxWords !== undefined && wordCount > maxWords;
+
+    const checklist = [...points.map(point => `Covered: ${point}`), ...criteria];
+
+    const toggleChecked = (item: string) => {
+        setChecked(prev => {
+            const next = new Set(prev);
+            if (next.has(item)) next.delete(item);
+            else next.add(item);
+            return next;
+        });
+    };
+
+    const submit = () => {
+        if (exerciseIdRef.current) {
+            completeAttempt({
+                text,
+                wordCount,
+                checked: checklist.filter(item => checked.has(item)),
+                checklist
+            });
+            setIsCompleted(true);
+        }
+        setDeadline(null);
+        setPhase('submitted');
+    };
+
+    // The exam has no Submit button: whatever was written is saved when the section ends
+    useExamSectionEnd(() => {
+        if (!exerciseIdRef.current || !text.trim()) return;
+        completeAttempt({ text, wordCount, checked: [], checklist: [] });
+        setIsCompleted(true);
+    });
+
+    const writeAgain = () => {
+        setChecked(new Set());
+        setPhase('writing');
+    };
+
+    // Newest first, so the learner sees how the drafts developed
+    const submissions = (exerciseId ? getAttempts(exerciseId) : [])
+        .filter(attempt => attempt.submission)
+        .reverse();
+
+    return (
+        <div className="my-6 p-6 border border-gray-200 rounded-xl bg-white shadow-sm dark:bg-gray-800 dark:border-gray-700 relative">
+            {isCompleted && !inExam && (
+                <div className="absolute -top-3 -right-3 bg-green-500 text-white rounded-full p-2 shadow-lg z-10">
+                    <Check size={20} />
+                </div>
+            )}
+
+            <div className="mb-4 text-gray-800 dark:text-gray-200">{children}</div>
+
+            {points.length > 0 && (
+                <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-dashed border-gray-300 dark:border-gray-700">
+                    <div className="text-sm font-medium text-gray-500 mb-2 uppercase tracking-wider">Leitpunkte:</div>
+                    <ul className="list-disc pl-5 space-y-1 m-0 text-gray-800 dark:text-gray-200">
+                        {points.map((point, index) => <li key={index} className="m-0">{point}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            <textarea
+                value={text}
+                onChange={e => updateText(e.target.value)}
+                readOnly={phase !== 'writing'}
+                rows={12}
+                placeholder="Write your text here…"
+                className="w-full p-3 border rounded-lg bg-white border-gray-300 text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-200"
+            />
+
+            <div className="flex items-center gap-4 flex-wrap mt-2 mb-6 text-sm">
+                <span className={clsx(
+                    "font-medium",
+                    tooLong ? "text-red-600 dark:text-red-400" :
+                        tooShort ? "text-gray-500 dark:text-gray-400" :
+                            wordCount > 0 ? "text-green-600 dark:text-green-400" : "text-gray-500 dark:text-gray-400"
+                )}>
+                    {wordCount} / {formatWordTarget(minWords, maxWords)}
+                </span>
+                {minutes !== undefined && !inExam && phase === 'writing' && (
+                    secondsLeft === null ? (
+                        <button
+                            onClick={startTimer}
+                            className="flex items-center gap-1.5 text-blue-600 hover:text-blue-700 dark:text-blue-400 font-medium"
+                        >
+                            <Clock size={16} />
+                            Start timer ({minutes} min)
+                        </button>
+                    ) : (
+                        <span className={clsx(
+                            "flex items-center gap-1.5 font-mono",
+                            secondsLeft < 5 * 60 ? "text-red-600 dark:text-red-400" : "text-gray-700 dark:text-gray-300"
+                        )}>
+                            <Clock size={16} />
+                            {secondsLeft > 0 ? formatCountdown(secondsLeft) : 'Time is up'}
+                        </span>
+                    )
+                )}
+            </div>
+
+            {!inExam && phase === 'assessing' && (
+                <div className="mb-6">
+                    <div className="text-sm font-medium text-gray-500 mb-2 uppercase tracking-wider">Check your text:</div>
+                    <div className="space-y-2">
+                        {checklist.map(item => (
+                            <label key={item} className="flex items-start gap-2 cursor-pointer text-gray-800 dark:text-gray-200">
+                                <input
+                                    type="checkbox"
+                                    checked={checked.has(item)}
+                                    onChange={() => toggleChecked(item)}
+                                    className="mt-1"
+                                />
+                                <span>{item}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {!inExam && <div className="flex gap-4 items-center flex-wrap">
+                {phase === 'writing' && (
+                    <button
+                        onClick={() => setPhase('assessing')}
+                        disabled={wordCount === 0}
+                        className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm border border-transparent"
+                    >
+                        Submit
+                    </button>
+                )}
+                {phase === 'assessing' && (
+                    <>
+                        <button
+                            onClick={submit}
+                            className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors shadow-sm border border-transparent"
+                        >
+                            Save submission
+                        </button>
+                        <button
+                            onClick={writeAgain}
+                            className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg font-medium hover:bg-gray-300 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 transition-colors"
+                        >
+                            Keep writing
+                        </button>
+                    </>
+                )}
+                {phase === 'submitted' && (
+                    <>
+                        <button
+                            onClick={writeAgain}
+                            className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg font-medium hover:bg-gray-300 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 transition-colors"
+                        >
+                            Revise
+                        </button>
+                        <span className="font-medium ml-auto text-green-600">
+                            Saved with {checked.size} of {checklist.length} points checked
+                        </span>
+                    </>
+                )}
+            </div>}
+
+            {!inExam && phase === 'submitted' && (
+                <WritingFeedback
+                    task={getTextContent(children, ' ')}
+                    points={points}
+                    minWords={minWords}
+                    maxWords={maxWords}
+                    text={text}
+                />
+            )}
+
+            {!inExam && submissions.length > 0 && (
+                <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+                    <div className="text-sm font-medium text-gray-500 mb-2 uppercase tracking-wider">Previous submissions:</div>
+                    <div className="space-y-2">
+                        {submissions.map(attempt => (
+                            <details key={attempt.timestamp} className="text-sm text-gray-700 dark:text-gray-300">
+                                <summary className="cursor-pointer">
+                                    {new Date(attempt.timestamp + attempt.duration).toLocaleString()}
+                                    {' · '}{attempt.submission!.wordCount} words
+                                    {' · '}{attempt.submission!.checklist.length > 0
+                                        ? `${attempt.submission!.checked.length} of ${attempt.submission!.checklist.length} checked`
+                                        : 'written in an exam'}
+                                </summary>
+                                <div className="mt-2 p-3 whitespace-pre-wrap rounded-lg bg-gray-50 dark:bg-gray-900/50">
+                                    {attempt.submission!.text}
+                                </div>
+                            </details>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const writingTaskExercise = defineExercise({
+    type: 'WritingTask',
+    component: WritingTask,
+    aliases: ['writingtask'],
+    countsTowardProgress: true,
+    propsSchema: writingTaskSchema as ExercisePropsSchema,
+    getContentKey: props => `${getTextContent(props.children, ' ')}\n${(props.points ?? []).join('|')}`
+});
@@ -0,0 +1,198 @@
+// Generated by scripts/generate-exercise-types.js from schemas/*.schema.json, do not edit.
+// Run `npm run generate-types` after changing a schema.
+
+import type { ReactNode } from 'react';
+
+// Phrase read out by speech synthesis
+export interface AudioPhraseProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    children: ReactNode; // Phrase to read out
+    speaker?: string;
+    hideText?: boolean;
+    autoPlay?: boolean;
+    lang?: string;
+    voice?: string;
+}
+
+export interface DialogueLine {
+    speaker: string;
+    text: string;
+    side?: 'left' | 'right';
+    voice?: string;
+    silent?: boolean;
+}
+
+// Conversation read out line by line, from Message children or lines
+export interface DialogueProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    lines?: DialogueLine[]; // Lines, if not given as Message children
+    children?: ReactNode; // Message elements
+    autoPlay?: boolean;
+}
+
+// Text with gaps, written as [answer] or {answer}
+export interface FillBlanksProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    children: ReactNode; // Text with {answer} or [answer]
+    mode?: 'input' | 'drag' | 'picker';
+    options?: string[]; // Distractors for drag mode
+    showItemHints?: boolean; // Enable individual hints (bulb icon)
+}
+
+export interface FlashcardItem {
+    word: string;
+    wordTranslation: string;
+    phrase: string;
+    phraseTranslation: string;
+    audio?: string;
+    category?: string;
+    partOfSpeech?: string;
+}
+
+// Vocabulary cards with learn, quiz, match, type and speak modes
+export interface FlashcardsProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    items: FlashcardItem[];
+    lang?: string;
+    translationLang?: string;
+    voice?: string;
+    translationVoice?: string;
+    autoPlay?: boolean;
+    showLearn?: boolean;
+    showQuiz?: boolean;
+    showMatch?: boolean;
+    showType?: boolean;
+    showSpeak?: boolean;
+}
+
+// Sort items into named groups
+export interface GroupingProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    groups: Record<string, string[]>; // Group name -> items of the group
+}
+
+export interface ImageLabelingSlot {
+    id: string;
+    x: number; // Percentage (0-100)
+    y: number; // Percentage (0-100)
+    answer: string; // Correct word
+}
+
+// Drag words onto the matching spots of an image
+export interface ImageLabelingProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    image: string;
+    slots: ImageLabelingSlot[];
+    words: string[];
+    mode?: 'normal' | 'compact';
+    onResolvePath?: (path: string) => string; // Set by the editor to resolve repository paths
+}
+
+// Gaps inside running text
+export interface InlineBlanksProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    children: ReactNode; // Text with [answer] gaps
+    mode?: 'type' | 'picker';
+    options?: string[];
+}
+
+// Audio or video that pauses at Checkpoint children
+export interface InteractiveMediaProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    src: string;
+    type?: 'audio' | 'video';
+    title?: string;
+    children?: ReactNode; // Checkpoint elements
+}
+
+export interface MatchingPair {
+    left: string;
+    right: string;
+}
+
+// Match each left item with its right item
+export interface MatchingProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    pairs: MatchingPair[];
+    direction?: 'left' | 'right';
+}
+
+// Audio, video, YouTube or image to work through
+export interface MediaProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    src: string;
+    type: 'audio' | 'video' | 'youtube' | 'image';
+    caption?: string;
+    onResolvePath?: (path: string) => string; // Set by the editor to resolve repository paths
+}
+
+// Put items into the correct order
+export interface OrderingProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    items: string[]; // Items in the correct order
+    options?: string[]; // All available words, including distractors
+    alternatives?: string[][]; // Other correct orders
+    direction?: 'vertical' | 'horizontal';
+    mode?: 'normal' | 'compact';
+}
+
+// Single or multiple choice question with Option children
+export interface QuizProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    answer: string; // Number of the correct Option, "1" or "1,3"
+    children: ReactNode; // Question text and Option elements
+    multiple?: boolean;
+    direction?: 'vertical' | 'horizontal';
+    mode?: 'normal' | 'compact';
+    explanation?: string; // Why the answer is correct, shown to learners who choose a wrong option
+}
+
+// Phrase the learner says into the microphone
+export interface SpeakingChallengeProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    children: ReactNode; // Phrase to say
+    hideText?: boolean;
+    lang?: string;
+}
+
+// Gap text filled from a lettered word bank, each word used at most once (telc Sprachbausteine Teil 2)
+export interface SprachbausteineProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    children: ReactNode; // Text with [answer] gaps, each answer one of the words
+    words: string[]; // Word bank in letter order (a, b, c, ...), answers and distractors
+    start?: number; // Number of the first gap, e.g. 31 as on the telc answer sheet
+}
+
+// Match short texts to lettered headlines, some of them distractors (telc Leseverstehen Teil 1)
+export interface TextMatchingProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    children: ReactNode; // Passage elements, each with the letter of its headline as answer
+    headlines: string[]; // Headlines in letter order (a, b, c, ...), answers and distractors
+    start?: number; // Number of the first text, e.g. 1 as on the telc answer sheet
+}
+
+export interface TrueFalseStatement {
+    text: string;
+    answer: 'true' | 'false' | 'not-given';
+}
+
+// Statements about a text or recording, each judged true, false or (optionally) not in the text
+export interface TrueFalseProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    children?: ReactNode; // Source the statements are about: a text block, AudioPhrase or Media
+    statements: TrueFalseStatement[];
+    notGiven?: boolean; // Offer the third option "not in the text"
+    labels?: string[]; // Option labels for true, false and not given; defaults to richtig, falsch, steht nicht im Text
+    start?: number; // Number of the first statement
+}
+
+// Free writing task with Leitpunkte, word count, optional timer, a self-assessment on submit and AI feedback (telc Schriftlicher Ausdruck)
+export interface WritingTaskProps {
+    id?: string; // Stable ID that keeps progress when the content is edited
+    children: ReactNode; // The task: situation and what to write
+    points?: string[]; // Leitpunkte the text must cover; leave out for a free-text answer
+    minWords?: number;
+    maxWords?: number;
+    minutes?: number; // Offer a countdown of this many minutes
+    criteria?: string[]; // Self-assessment checklist shown on submit, after one item per Leitpunkt; defaults to the telc criteria
+}
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, type RefObject } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useProgress } from '../../../context/ProgressContext';
+import type { WritingSubmission } from '../../../utils/progressStorage';
+
+interface AttemptState {
+    startedAt: number;
+    wrongSubmissions: number;
+    hintsUsed: number;
+    wrongAnswers: string[];
+}
+
+const freshAttempt = (): AttemptState => ({
+    startedAt: Date.now(),
+    wrongSubmissions: 0,
+    hintsUsed: 0,
+    wrongAnswers: []
+});
+
+/**
+ * Tracks a single attempt at an exercise (from mount or the last completion until
+ * the next completion) and records it in the progress history.
+ * An attempt that was started but never completed is recorded on unmount.
+ * @param exerciseIdRef - Ref holding the stable exercise ID of the component
+ */
+export function useAttemptTracker(exerciseIdRef: RefObject<string>) {
+    const { recordAttempt } = useProgress();
+    const location = useLocation();
+    const attemptRef = useRef<AttemptState>(freshAttempt());
+    const lessonPathRef = useRef(location.pathname);
+
+    useEffect(() => {
+        lessonPathRef.current = location.pathname;
+    }, [location.pathname]);
+
+    const flush = useCallback((completed: boolean, submission?: WritingSubmission) => {
+        const attempt = attemptRef.current;
+        if (!exerciseIdRef.current) return;
+
+        recordAttempt(exerciseIdRef.current, lessonPathRef.current, {
+            timestamp: attempt.startedAt,
+            duration: Date.now() - attempt.startedAt,
+            wrongSubmissions: attempt.wrongSubmissions,
+            hintsUsed: attempt.hintsUsed,
+            wrongAnswers: attempt.wrongAnswers,
+            completed,
+            ...(submission && { submission })
+        });
+        attemptRef.current = freshAttempt();
+    }, [exerciseIdRef, recordAttempt]);
+
+    // A wrong "Check" with the answers that were wrong
+    const registerWrongSubmission = useCallback((wrongAnswers: string[]) => {
+        attemptRef.current.wrongSubmissions++;
+        attemptRef.current.wrongAnswers.push(...wrongAnswers.filter(a => a.trim() !== ''));
+    }, []);
+
+    // Individual hints and "Show answers" both count as hints
+    const registerHint = useCallback(() => {
+        attemptRef.current.hintsUsed++;
+    }, []);
+
+    // Free-text exercises hand in what the learner wrote with the attempt
+    const completeAttempt = useCallback((submission?: WritingSubmission) => {
+        flush(true, submission);
+    }, [flush]);
+
+    useEffect(() => {
+        return () => {
+            const attempt = attemptRef.current;
+            if (attempt.wrongSubmissions > 0 || attempt.hintsUsed > 0) {
+                flush(false);
+            }
+        };
+    }, [flush]);
+
+    return { registerWrongSubmission, registerHint, completeAttempt };
+}
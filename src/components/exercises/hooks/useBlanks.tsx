@@ -18,6 +18,7 @@ export interface BlankData {
     answer: string;
     localOptions: string[];
     hint?: string;
+    explanation?: string; // [answer|explain:...], shown when the gap is answered wrongly
 }
 
 export interface BlankStatus {
@@ -52,17 +53,20 @@ export const useBlanks = ({ children, options: _options = [] }: UseBlanksOptions
                 const answer = items[0];
 
                 let hint: string | undefined;
+                let explanation: string | undefined;
                 const localOptions: string[] = [];
 
                 for (let i = 1; i < items.length; i++) {
                     if (items[i].startsWith('hint:')) {
                         hint = items[i].substring(5);
+                    } else if (items[i].startsWith('explain:')) {
+                        explanation = items[i].substring(8);
                     } else {
                         localOptions.push(items[i]);
                     }
                 }
 
-                return { answer, localOptions, hint };
+                return { answer, localOptions, hint, explanation };
             });
 
         return { blanksData: data };
@@ -197,7 +201,8 @@ export const useBlanks = ({ children, options: _options = [] }: UseBlanksOptions
         return processNode(children);
     }, [children, blanksData, inputs, submitted, touched]);
 
-    const allCorrect = inputs.every((val, idx) => val.trim().toLowerCase() === answers[idx].toLowerCase());
+    const correctCount = inputs.filter((val, idx) => val.trim().toLowerCase() === answers[idx].toLowerCase()).length;
+    const allCorrect = correctCount === answers.length;
 
     return {
         blanksData,
@@ -216,6 +221,7 @@ export const useBlanks = ({ children, options: _options = [] }: UseBlanksOptions
         showAllAnswers,
         renderContent,
         allCorrect,
+        correctCount,
         setSubmitted
     };
 };
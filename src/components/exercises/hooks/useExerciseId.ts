@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useProgress } from '../../../context/ProgressContext';
+import { generateExplicitExerciseId, generateStableExerciseId } from '../../../utils/exerciseId';
+import { getMigratedExerciseIds } from '../../../utils/exerciseMigrations';
+import { getExerciseContentKey } from '../../../utils/exerciseContent';
+import type { ExerciseDefinition } from '../../../lib/exercises/exerciseDefinition';
+
+// How many mounted exercises use each ID, to spot exercises that would share progress
+const mountedExerciseIds = new Map<string, number>();
+
+/**
+ * Resolves the stable ID of an exercise and whether it has been completed.
+ * Progress recorded under a previous ID of the exercise (its content hash before
+ * it got an explicit `id`, or an entry in exercise-migrations.yaml) is moved to
+ * the current ID.
+ * @param exercise - Definition of the exercise type, see defineExercise
+ * @param props - The exercise's `id` and the props its content hash is derived from
+ * @param legacyContent - Content an older version of the component hashed instead
+ */
+export function useExerciseId<P>(exercise: ExerciseDefinition<P>, props: Partial<P> & { id?: string }, legacyContent?: string) {
+    const { isExerciseComplete, migrateExerciseProgress } = useProgress();
+    const exerciseType = exercise.type;
+    const content = getExerciseContentKey(exercise, props);
+    const { id } = props;
+    const location = useLocation();
+    const exerciseIdRef = useRef<string>('');
+    const [exerciseId, setExerciseId] = useState('');
+    const [isCompleted, setIsCompleted] = useState(false);
+
+    useEffect(() => {
+        const lessonPath = location.pathname;
+        const hashId = generateStableExerciseId(lessonPath, exerciseType, content);
+        const currentId = id ? generateExplicitExerciseId(lessonPath, exerciseType, id) : hashId;
+
+        const previousIds = id ? [hashId, ...getMigratedExerciseIds(lessonPath, exerciseType, id)] : [];
+        if (legacyContent !== undefined) {
+            previousIds.push(generateStableExerciseId(lessonPath, exerciseType, legacyContent));
+        }
+        migrateExerciseProgress(previousIds, currentId);
+
+        exerciseIdRef.current = currentId;
+        setExerciseId(currentId);
+        setIsCompleted(isExerciseComplete(currentId));
+    }, [location.pathname, exerciseType, content, id, legacyContent, isExerciseComplete, migrateExerciseProgress]);
+
+    useEffect(() => {
+        if (!import.meta.env.DEV || !exerciseId) return;
+
+        if (id?.includes(':')) {
+            console.warn(`[Exercise] id "${id}" of ${exerciseType} must not contain ":"`);
+        }
+        const count = (mountedExerciseIds.get(exerciseId) ?? 0) + 1;
+        mountedExerciseIds.set(exerciseId, count);
+        if (count > 1) {
+            console.warn(
+                `[Exercise] ${count} exercises on this page share the ID "${exerciseId}" and will share progress. ` +
+                'Give them distinct `id` props.'
+            );
+        }
+
+        return () => {
+            const remaining = (mountedExerciseIds.get(exerciseId) ?? 1) - 1;
+            if (remaining > 0) mountedExerciseIds.set(exerciseId, remaining);
+            else mountedExerciseIds.delete(exerciseId);
+        };
+    }, [exerciseId, exerciseType, id]);
+
+    return { exerciseIdRef, isCompleted, setIsCompleted };
+}
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { X, Sparkles, Wrench, AlertCircle, Loader2 } from 'lucide-react';
+import { useSettings } from '../../context/SettingsContext';
+import { SYSTEM_PROMPT } from '../../constants/aiPrompts';
+import { generateText } from '../../lib/ai/aiClient';
+import { repairGeneratedMdx, type MdxRepairResult } from '../../lib/ai/repairMdx';
+
+interface GenerateExercisesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onInsert: (mdx: string) => void; // Only called with MDX that passed the checks
+}
+
+// Asks the configured AI for exercises and shows the repaired MDX with what was
+// fixed. Replies that still have errors after repairing can't be inserted.
+export const GenerateExercisesModal: React.FC<GenerateExercisesModalProps> = ({ isOpen, onClose, onInsert }) => {
+    const { languageSettings } = useSettings();
+    const [request, setRequest] = useState('');
+    const [generating, setGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<MdxRepairResult | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setError(null);
+            setResult(null);
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const generate = async () => {
+        setGenerating(true);
+        setError(null);
+        setResult(null);
+        try {
+            const reply = await generateText({
+                system: SYSTEM_PROMPT,
+                prompt: `Target Language: ${languageSettings.learningLang}\nTranslation Language: ${languageSettings.translationLang}\n\n${request.trim()}`
+            });
+            setResult(repairGeneratedMdx(reply));
+        } catch (e) {
+            console.error('Error generating exercises:', e);
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setGenerating(false);
+        }
+    };
+
+    const insert = () => {
+        if (!result?.ok) return;
+        onInsert(result.mdx);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                        <Sparkles size={20} className="text-blue-500" />
+                        Generate exercises
+                    </h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <textarea
+                        value={request}
+                        onChange={e => setRequest(e.target.value)}
+                        rows={4}
+                        placeholder="e.g. A Quiz and a FillBlanks on the dative after mit, bei and nach"
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+
+                    {error && (
+                        <div className="text-sm text-red-600 dark:text-red-400">Could not generate: {error}</div>
+                    )}
+
+                    {result && (
+                        <>
+                            {result.repairs.length > 0 && (
+                                <div className="p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-200">
+                                    <div className="font-medium flex items-center gap-2 mb-1"><Wrench size={14} /> Repaired</div>
+                                    <ul className="list-disc pl-5 m-0">
+                                        {result.repairs.map(repair => <li key={repair}>{repair}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+                            {result.diagnostics.length > 0 && (
+                                <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+                                    <div className="font-medium flex items-center gap-2 mb-1"><AlertCircle size={14} /> Can't be inserted</div>
+                                    <ul className="list-disc pl-5 m-0">
+                                        {result.diagnostics.map((diagnostic, index) => (
+                                            <li key={index}>{diagnostic.line}:{diagnostic.column} {diagnostic.message}</li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                            {result.ok && (
+                                <div className="text-sm text-green-600 dark:text-green-400">
+                                    {result.exerciseCount} {result.exerciseCount === 1 ? 'exercise' : 'exercises'}, all checks passed
+                                </div>
+                            )}
+                            <pre className="p-3 rounded-lg bg-gray-50 dark:bg-gray-900 text-xs text-gray-800 dark:text-gray-200 overflow-x-auto whitespace-pre-wrap">{result.mdx}</pre>
+                        </>
+                    )}
+                </div>
+
+                <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+                    <button
+                        onClick={generate}
+                        disabled={generating || !request.trim()}
+                        className="px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 dark:bg-blue-900/20 dark:text-blue-400 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {generating ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+                        {result ? 'Generate again' : 'Generate'}
+                    </button>
+                    <button
+                        onClick={insert}
+                        disabled={!result?.ok}
+                        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Insert
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
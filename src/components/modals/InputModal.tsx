@@ -9,6 +9,7 @@ interface InputModalProps {
     placeholder?: string;
     initialValue?: string;
     confirmLabel?: string;
+    inputType?: 'text' | 'password';
     onConfirm: (value: string) => void;
 }
 
@@ -20,6 +21,7 @@ export const InputModal: React.FC<InputModalProps> = ({
     placeholder,
     initialValue = '',
     confirmLabel = 'Create',
+    inputType = 'text',
     onConfirm
 }) => {
     const [value, setValue] = useState(initialValue);
@@ -64,7 +66,7 @@ export const InputModal: React.FC<InputModalProps> = ({
                     </label>
                     <input
                         ref={inputRef}
-                        type="text"
+                        type={inputType}
                         value={value}
                         onChange={(e) => setValue(e.target.value)}
                         className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-blue-500 outline-none text-gray-900 dark:text-white"
@@ -0,0 +1,198 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { User, UserPlus, ChevronDown, Check, Lock, Unlock, Pencil, Trash2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useProfile } from '../../context/ProfileContext';
+import { useToast } from '../../context/ToastContext';
+import { InputModal } from '../modals/InputModal';
+import { ConfirmationModal } from '../modals/ConfirmationModal';
+import { DEFAULT_PROFILE_ID, arePinsAvailable, type LearnerProfile } from '../../lib/profiles/profiles';
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+type ModalState =
+    | { kind: 'create' }
+    | { kind: 'rename' }
+    | { kind: 'unlock'; profile: LearnerProfile }
+    | { kind: 'setPin' }
+    | { kind: 'delete' }
+    | null;
+
+// Sidebar control for switching between learner profiles on a shared device
+export const ProfileSwitcher: React.FC = () => {
+    const { profiles, activeProfile, createProfile, renameProfile, deleteProfile, switchProfile, setProfilePin } = useProfile();
+    const toast = useToast();
+    const [isOpen, setIsOpen] = useState(false);
+    const [modal, setModal] = useState<ModalState>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const isNamedProfile = activeProfile.id !== DEFAULT_PROFILE_ID;
+
+    const openModal = (next: ModalState) => {
+        setIsOpen(false);
+        setModal(next);
+    };
+
+    const handleSwitch = async (profile: LearnerProfile, pin?: string) => {
+        if (profile.id === activeProfile.id) return;
+        if (profile.pinHash && pin === undefined) {
+            openModal({ kind: 'unlock', profile });
+            return;
+        }
+        setIsOpen(false);
+        try {
+            if (await switchProfile(profile.id, pin)) {
+                toast.success(`Switched to ${profile.name}`);
+            } else {
+                toast.error('Wrong PIN');
+            }
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleCreate = (name: string) => {
+        createProfile(name);
+        toast.success(`Created profile ${name}`);
+    };
+
+    const handleSetPin = async (pin: string) => {
+        if (!PIN_PATTERN.test(pin)) {
+            toast.error('The PIN must be 4 to 8 digits');
+            return;
+        }
+        try {
+            await setProfilePin(pin);
+            toast.success('PIN set');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleRemovePin = async () => {
+        setIsOpen(false);
+        await setProfilePin(null);
+        toast.success('PIN removed');
+    };
+
+    const handleDelete = () => {
+        const name = activeProfile.name;
+        deleteProfile(activeProfile.id);
+        setModal(null);
+        toast.success(`Deleted profile ${name}`);
+    };
+
+    const actionClass = "w-full px-3 py-2 text-sm text-left flex items-center gap-2 hover:bg-gray-100 dark:hover:bg-gray-700";
+
+    return (
+        <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-800 relative" ref={containerRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+            >
+                <span className="flex items-center gap-2 min-w-0">
+                    <User size={16} className="shrink-0" />
+                    <span className="truncate">{activeProfile.name}</span>
+                    {activeProfile.pinHash && <Lock size={12} className="shrink-0 text-gray-400" />}
+                </span>
+                <ChevronDown size={16} className={clsx("shrink-0 transition-transform", isOpen && "rotate-180")} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute bottom-full left-4 right-4 mb-1 z-40 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+                    <div className="max-h-60 overflow-y-auto py-1">
+                        {profiles.map(profile => (
+                            <button
+                                key={profile.id}
+                                onClick={() => handleSwitch(profile)}
+                                className={clsx(actionClass, "justify-between", profile.id === activeProfile.id && "text-blue-600 dark:text-blue-400")}
+                            >
+                                <span className="flex items-center gap-2 min-w-0">
+                                    <span className="truncate">{profile.name}</span>
+                                    {profile.pinHash && <Lock size={12} className="shrink-0 text-gray-400" />}
+                                </span>
+                                {profile.id === activeProfile.id && <Check size={14} />}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="border-t border-gray-200 dark:border-gray-700 py-1 text-gray-700 dark:text-gray-300">
+                        <button onClick={() => openModal({ kind: 'create' })} className={actionClass}>
+                            <UserPlus size={14} /> Add profile
+                        </button>
+                        {isNamedProfile && (
+                            <>
+                                <button onClick={() => openModal({ kind: 'rename' })} className={actionClass}>
+                                    <Pencil size={14} /> Rename
+                                </button>
+                                {activeProfile.pinHash ? (
+                                    <button onClick={handleRemovePin} className={actionClass}>
+                                        <Unlock size={14} /> Remove PIN
+                                    </button>
+                                ) : arePinsAvailable() && (
+                                    <button onClick={() => openModal({ kind: 'setPin' })} className={actionClass}>
+                                        <Lock size={14} /> Set PIN
+                                    </button>
+                                )}
+                                <button onClick={() => openModal({ kind: 'delete' })} className={clsx(actionClass, "text-red-600 dark:text-red-400")}>
+                                    <Trash2 size={14} /> Delete profile
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <InputModal
+                isOpen={modal?.kind === 'create'}
+                onClose={() => setModal(null)}
+                title="New Profile"
+                label="Learner name"
+                onConfirm={handleCreate}
+            />
+            <InputModal
+                isOpen={modal?.kind === 'rename'}
+                onClose={() => setModal(null)}
+                title="Rename Profile"
+                label="Learner name"
+                initialValue={activeProfile.name}
+                confirmLabel="Rename"
+                onConfirm={(name) => renameProfile(activeProfile.id, name)}
+            />
+            <InputModal
+                isOpen={modal?.kind === 'unlock'}
+                onClose={() => setModal(null)}
+                title={modal?.kind === 'unlock' ? `Switch to ${modal.profile.name}` : ''}
+                label="PIN"
+                inputType="password"
+                confirmLabel="Unlock"
+                onConfirm={(pin) => modal?.kind === 'unlock' && handleSwitch(modal.profile, pin)}
+            />
+            <InputModal
+                isOpen={modal?.kind === 'setPin'}
+                onClose={() => setModal(null)}
+                title="Set PIN"
+                label="PIN (4 to 8 digits)"
+                inputType="password"
+                confirmLabel="Set PIN"
+                onConfirm={handleSetPin}
+            />
+            <ConfirmationModal
+                isOpen={modal?.kind === 'delete'}
+                onClose={() => setModal(null)}
+                onConfirm={handleDelete}
+                title="Delete profile"
+                message={`This deletes ${activeProfile.name} together with all of its progress and settings.`}
+                confirmLabel="Delete"
+            />
+        </div>
+    );
+};
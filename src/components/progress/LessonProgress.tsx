@@ -27,6 +27,12 @@ export const LessonProgress: React.FC<LessonProgressProps> = ({
                 showLabel={showLabel}
                 height="h-1.5"
             />
+            {showLabel && progressData.accuracy !== null && (
+                <div className="mt-1 flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                    <span>Accuracy: {progressData.accuracy}%</span>
+                    <span>{progressData.attemptCount} {progressData.attemptCount === 1 ? 'attempt' : 'attempts'}</span>
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { RotateCcw, Check } from 'lucide-react';
+import { useProgress } from '../../context/ProgressContext';
+import { type CourseItem } from '../../utils/contentLoader';
+import { getReviewSchedule } from '../../utils/progressStorage';
+import { getExerciseTypeFromId } from '../../utils/exerciseId';
+
+interface ReviewQueueProps {
+    structure: CourseItem[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Map lesson paths to titles so due exercises can be listed under their lesson
+const collectLessonTitles = (items: CourseItem[], titles: Map<string, string> = new Map()): Map<string, string> => {
+    items.forEach(item => {
+        if (item.path) titles.set(item.path, item.title);
+        if (item.items) collectLessonTitles(item.items, titles);
+    });
+    return titles;
+};
+
+const formatOverdue = (dueDate: number, now: number): string => {
+    const days = Math.floor((now - dueDate) / DAY_MS);
+    if (days <= 0) return 'due today';
+    if (days === 1) return 'overdue by 1 day';
+    return `overdue by ${days} days`;
+};
+
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({ structure }) => {
+    const { getDueReviewsData } = useProgress();
+    const now = Date.now();
+    const dueReviews = getDueReviewsData();
+    const lessonTitles = collectLessonTitles(structure);
+
+    // Keep only lessons that still exist in the course, grouped in due order
+    const groups = new Map<string, typeof dueReviews>();
+    dueReviews.forEach(entry => {
+        if (!lessonTitles.has(entry.lessonPath)) return;
+        const group = groups.get(entry.lessonPath) || [];
+        group.push(entry);
+        groups.set(entry.lessonPath, group);
+    });
+
+    return (
+        <div>
+            <h1 className="flex items-center gap-3">
+                <RotateCcw className="text-blue-600" size={28} />
+                Review
+            </h1>
+
+            {groups.size === 0 ? (
+                <div className="not-prose flex items-center gap-3 p-6 rounded-xl border border-green-200 bg-green-50 text-green-700 dark:bg-green-900/20 dark:border-green-800 dark:text-green-400">
+                    <Check size={20} />
+                    <span>Nothing to review right now. Come back later!</span>
+                </div>
+            ) : (
+                <div className="not-prose space-y-4">
+                    <p className="text-gray-600 dark:text-gray-400">
+                        Open a lesson and complete the exercises listed below to schedule their next review.
+                    </p>
+                    {Array.from(groups.entries()).map(([lessonPath, entries]) => (
+                        <div key={lessonPath} className="p-4 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                            <div className="flex items-center justify-between mb-3">
+                                <Link
+                                    to={lessonPath}
+                                    className="font-bold text-blue-600 dark:text-blue-400 hover:underline"
+                                >
+                                    {lessonTitles.get(lessonPath)}
+                                </Link>
+                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                    {entries.length} due
+                                </span>
+                            </div>
+                            <ul className="space-y-1">
+                                {entries.map(entry => {
+                                    const schedule = getReviewSchedule(entry);
+                                    return (
+                                        <li key={entry.exerciseId} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                                            <span>{getExerciseTypeFromId(entry.exerciseId) || 'Exercise'}</span>
+                                            {schedule && (
+                                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                                    {formatOverdue(schedule.dueDate, now)}
+                                                </span>
+                                            )}
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertCircle } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useProgress } from '../../context/ProgressContext';
+
+interface SyncStatusIndicatorProps {
+    className?: string;
+}
+
+// Compact sync status; clicking it syncs right away
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ className }) => {
+    const { syncState, syncNow } = useProgress();
+    const { status, pending, lastSyncedAt, error } = syncState;
+
+    if (status === 'disabled') return null;
+
+    const pendingLabel = pending > 0 ? ` · ${pending} pending` : '';
+    const view = {
+        idle: { icon: Cloud, label: `Synced${pendingLabel}`, color: 'text-green-600 dark:text-green-400' },
+        syncing: { icon: RefreshCw, label: 'Syncing…', color: 'text-blue-600 dark:text-blue-400' },
+        offline: { icon: CloudOff, label: `Offline${pendingLabel}`, color: 'text-gray-500 dark:text-gray-400' },
+        error: { icon: AlertCircle, label: `Sync failed${pendingLabel}`, color: 'text-red-600 dark:text-red-400' }
+    }[status];
+    const Icon = view.icon;
+
+    const title = error
+        ?? (lastSyncedAt ? `Last synced ${new Date(lastSyncedAt).toLocaleTimeString()}` : 'Not synced yet');
+
+    return (
+        <button
+            onClick={syncNow}
+            title={title}
+            className={clsx("flex items-center gap-1.5 text-xs font-normal hover:underline", view.color, className)}
+        >
+            <Icon size={14} className={clsx(status === 'syncing' && "animate-spin")} />
+            {view.label}
+        </button>
+    );
+};
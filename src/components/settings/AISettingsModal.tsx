@@ -170,6 +170,7 @@ export function AISettingsModal({ isOpen, onClose }: AISettingsModalProps) {
                                         else if (p === 'qwen') { baseUrl = 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1'; model = 'qwen-plus'; }
                                         else if (p === 'gemini') { baseUrl = 'https://generativelanguage.googleapis.com'; model = 'gemini-1.5-flash'; }
                                         else if (p === 'grok') { baseUrl = 'https://api.x.ai/v1'; model = 'grok-beta'; }
+                                        else if (p === 'mock') { baseUrl = ''; model = 'mock-1'; }
 
                                         setConfig({ ...config, provider: p, baseUrl, model });
                                     }}
@@ -181,6 +182,7 @@ export function AISettingsModal({ isOpen, onClose }: AISettingsModalProps) {
                                     <option value="qwen">Qwen (Alibaba)</option>
                                     <option value="gemini">Google Gemini</option>
                                     <option value="grok">xAI (Grok)</option>
+                                    <option value="mock">Mock (offline, for development)</option>
                                 </select>
                             </div>
 
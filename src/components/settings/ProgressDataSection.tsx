@@ -0,0 +1,194 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Download, Upload, RotateCcw, Check, X, Trash2 } from 'lucide-react';
+import { useProgress } from '../../context/ProgressContext';
+import { useSettings } from '../../context/SettingsContext';
+import { useToast } from '../../context/ToastContext';
+import { useProfile } from '../../context/ProfileContext';
+import { ConfirmationModal } from '../modals/ConfirmationModal';
+import { findOrphanedProgress } from '../../lib/exercises/exerciseManifest';
+import {
+    createProgressExport,
+    getExportFileName,
+    parseProgressExport,
+    previewProgressImport,
+    type ImportPreview,
+    type ProgressExport
+} from '../../utils/progressTransfer';
+
+interface PendingImport {
+    fileName: string;
+    data: ProgressExport;
+    preview: ImportPreview;
+}
+
+// Export, import and reset of the active profile's progress and settings
+export const ProgressDataSection: React.FC = () => {
+    const { activeProfile } = useProfile();
+    const { getAllProgressData, replaceProgress, removeProgressEntries, resetProgress } = useProgress();
+    const { showHints, setShowHints, languageSettings, updateLanguageSettings } = useSettings();
+    const toast = useToast();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+    const [isResetOpen, setIsResetOpen] = useState(false);
+
+    // Results of exercises that were edited or removed from the course
+    const orphaned = useMemo(() => findOrphanedProgress(getAllProgressData()), [getAllProgressData]);
+
+    const handleExport = () => {
+        const data = createProgressExport(getAllProgressData(), { showHints, languageSettings }, activeProfile.name);
+        const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = getExportFileName(activeProfile.name);
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow picking the same file again
+        if (!file) return;
+
+        try {
+            const data = parseProgressExport(await file.text());
+            const preview = previewProgressImport(getAllProgressData(), data, { showHints, languageSettings });
+            setPendingImport({ fileName: file.name, data, preview });
+        } catch (err) {
+            toast.error(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    const applyImport = () => {
+        if (!pendingImport) return;
+        const { data, preview } = pendingImport;
+
+        replaceProgress(preview.merged);
+        if (data.settings?.showHints !== undefined) setShowHints(data.settings.showHints);
+        if (data.settings?.languageSettings) updateLanguageSettings(data.settings.languageSettings);
+
+        setPendingImport(null);
+        toast.success('Progress imported');
+    };
+
+    const handleRemoveOrphaned = () => {
+        removeProgressEntries(orphaned.map(entry => entry.exerciseId));
+        toast.success(`Removed ${orphaned.length} outdated results`);
+    };
+
+    const handleReset = () => {
+        resetProgress();
+        setIsResetOpen(false);
+        toast.success('Progress reset');
+    };
+
+    const preview = pendingImport?.preview;
+    const hasChanges = preview && (preview.added.length > 0 || preview.updated.length > 0 || preview.changedSettings.length > 0);
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-md font-semibold text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700 pb-2">
+                Progress of {activeProfile.name}
+            </h3>
+
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+                Save your progress and settings to a file to move them to another browser or device.
+                Importing merges the file with your current progress.
+            </p>
+
+            <div className="flex flex-wrap gap-2">
+                <button
+                    onClick={handleExport}
+                    className="px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800 flex items-center gap-2 transition-colors"
+                >
+                    <Download size={16} /> Export
+                </button>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800 flex items-center gap-2 transition-colors"
+                >
+                    <Upload size={16} /> Import
+                </button>
+                <button
+                    onClick={() => setIsResetOpen(true)}
+                    className="px-3 py-2 text-sm rounded-lg border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center gap-2 transition-colors"
+                >
+                    <RotateCcw size={16} /> Reset
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={handleFileSelected}
+                />
+            </div>
+
+            {orphaned.length > 0 && (
+                <div className="flex items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    <span>
+                        {orphaned.length} saved results belong to exercises that are no longer in the course.
+                    </span>
+                    <button
+                        onClick={handleRemoveOrphaned}
+                        className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800 flex items-center gap-1 shrink-0 transition-colors"
+                    >
+                        <Trash2 size={14} /> Remove
+                    </button>
+                </div>
+            )}
+
+            {pendingImport && preview && (
+                <div className="p-4 rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 space-y-3">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white">
+                        Import preview: {pendingImport.fileName}
+                        {pendingImport.data.profileName && ` (${pendingImport.data.profileName})`}
+                        <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                            exported {new Date(pendingImport.data.exportedAt).toLocaleString()}
+                        </span>
+                    </div>
+
+                    {hasChanges ? (
+                        <ul className="text-sm text-gray-700 dark:text-gray-300 list-disc pl-5 space-y-1">
+                            {preview.added.length > 0 && <li>{preview.added.length} new exercises</li>}
+                            {preview.updated.length > 0 && <li>{preview.updated.length} exercises updated with newer results</li>}
+                            {preview.unchanged > 0 && <li>{preview.unchanged} exercises unchanged</li>}
+                            {preview.changedSettings.length > 0 && (
+                                <li>Settings replaced: {preview.changedSettings.join(', ')}</li>
+                            )}
+                        </ul>
+                    ) : (
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                            Nothing to import, your progress already contains everything in this file.
+                        </p>
+                    )}
+
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={() => setPendingImport(null)}
+                            className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg flex items-center gap-1 transition-colors"
+                        >
+                            <X size={14} /> Cancel
+                        </button>
+                        <button
+                            onClick={applyImport}
+                            disabled={!hasChanges}
+                            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 transition-colors"
+                        >
+                            <Check size={14} /> Apply
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <ConfirmationModal
+                isOpen={isResetOpen}
+                onClose={() => setIsResetOpen(false)}
+                onConfirm={handleReset}
+                title="Reset progress"
+                message={`This removes all completed exercises, attempt history and review schedules of ${activeProfile.name}. Export the progress first if you might want it back.`}
+                confirmLabel="Reset"
+            />
+        </div>
+    );
+};
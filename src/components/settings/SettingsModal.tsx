@@ -2,6 +2,8 @@ import React, { useState, useEffect, useRef } from 'react';
 import { X, Save, Settings as SettingsIcon, ChevronDown, Search, Check, Plus, Trash2, Play } from 'lucide-react';
 import { clsx } from 'clsx';
 import { useSettings, type LanguageSettings } from '../../context/SettingsContext';
+import { ProgressDataSection } from './ProgressDataSection';
+import { SyncSection } from './SyncSection';
 
 interface SettingsModalProps {
     isOpen: boolean;
@@ -448,6 +450,10 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
 
                         {/* Old Translation Voice Preview removed */}
                     </div>
+
+                    <ProgressDataSection />
+
+                    <SyncSection />
                 </div>
 
                 {/* Footer */}
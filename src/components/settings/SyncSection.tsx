@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, Shuffle } from 'lucide-react';
+import { useProgress } from '../../context/ProgressContext';
+import { generateLearnerId } from '../../lib/progress/syncClient';
+import { SyncStatusIndicator } from '../progress/SyncStatusIndicator';
+
+const DEFAULT_SYNC_URL = import.meta.env.VITE_SYNC_URL || 'http://localhost:5293';
+
+// Settings for syncing progress with a self-hosted server (see scripts/sync-server.js)
+export const SyncSection: React.FC = () => {
+    const { syncConfig, updateSyncConfig, syncNow } = useProgress();
+    const [serverUrl, setServerUrl] = useState(syncConfig?.serverUrl ?? DEFAULT_SYNC_URL);
+    const [learnerId, setLearnerId] = useState(syncConfig?.learnerId ?? '');
+
+    useEffect(() => {
+        setServerUrl(syncConfig?.serverUrl ?? DEFAULT_SYNC_URL);
+        setLearnerId(syncConfig?.learnerId ?? '');
+    }, [syncConfig]);
+
+    const isDirty = serverUrl.trim() !== (syncConfig?.serverUrl ?? '') || learnerId.trim() !== (syncConfig?.learnerId ?? '');
+    const canEnable = serverUrl.trim() !== '' && /^[A-Za-z0-9_-]{1,64}$/.test(learnerId.trim());
+
+    const inputClass = "w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-blue-500 outline-none text-sm";
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-md font-semibold text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700 pb-2 flex items-center justify-between">
+                Sync
+                {syncConfig && <SyncStatusIndicator />}
+            </h3>
+
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+                Use the same sync code on every device to keep progress in step through your own sync server.
+            </p>
+
+            <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Server URL</label>
+                <input
+                    type="url"
+                    value={serverUrl}
+                    onChange={(e) => setServerUrl(e.target.value)}
+                    className={inputClass}
+                    placeholder="http://localhost:5293"
+                />
+            </div>
+
+            <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Sync code</label>
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={learnerId}
+                        onChange={(e) => setLearnerId(e.target.value)}
+                        className={inputClass}
+                        placeholder="Letters, digits, - and _"
+                        autoComplete="off"
+                        spellCheck="false"
+                    />
+                    <button
+                        onClick={() => setLearnerId(generateLearnerId())}
+                        className="p-2 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                        title="Generate a new sync code"
+                    >
+                        <Shuffle size={16} />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-2">
+                {syncConfig && (
+                    <>
+                        <button
+                            onClick={() => updateSyncConfig(null)}
+                            className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                        >
+                            Turn off
+                        </button>
+                        <button
+                            onClick={syncNow}
+                            className="px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800 flex items-center gap-2 transition-colors"
+                        >
+                            <RefreshCw size={14} /> Sync now
+                        </button>
+                    </>
+                )}
+                <button
+                    onClick={() => updateSyncConfig({ serverUrl: serverUrl.trim(), learnerId: learnerId.trim() })}
+                    disabled={!canEnable || (!!syncConfig && !isDirty)}
+                    className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                    {syncConfig ? 'Update' : 'Turn on sync'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -9,6 +9,7 @@ You MUST output ONLY the valid MDX code for the requested exercise(s). Do not in
 1. **Quiz** (Multiple Choice)
    - Correct syntax uses children for question and options.
    - \`answer\`: 1-based index string of correct option(s). Use comma for multiple (e.g., "1,3").
+   - \`explanation\` (optional): The grammar rule behind the answer, shown to learners who choose a wrong option.
    \`<Quiz answer="2">
      What is the capital of France?
      <Option>London</Option>
@@ -30,6 +31,7 @@ You MUST output ONLY the valid MDX code for the requested exercise(s). Do not in
    - To provide distractions/dropdown options: \`[answer|option1|option2]\` (e.g., \`[is|are]\` where "is" is correct).
    - **STRICT RULE**: You MUST use square brackets \`[]\`. NEVER use HTML tags like \`<select>\` or angle brackets \`<phrasal verbs|nouns|adjectives>\`.
    - To provide a hint: \`[answer|hint:It's a color]\`.
+   - To explain the rule to learners who get the gap wrong: \`[answer|explain:Adjectives after "ist" take no ending]\`.
 
 5. **InlineBlanks** (Select from dropdowns inline)
    \`<InlineBlanks>I [am|is|are] happy.</InlineBlanks>\`
@@ -86,6 +88,40 @@ You MUST output ONLY the valid MDX code for the requested exercise(s). Do not in
     - **Timing Rule**: Insert Checkpoints at the timestamp of the **next chronological subtitle** (or slightly after speech ends). Do NOT place checkpoints before the relevant speech is complete/started.
     - Nest exercises (Quiz, FillBlanks, etc.) inside \`Checkpoint\`.
 
+11. **Sprachbausteine** (Gap text with a lettered word bank, telc Sprachbausteine Teil 2)
+    \`<Sprachbausteine words={["also", "bevor", "damit", "obwohl", "seit", "weil"]} start={31}>
+      Ich schreibe dir, [weil] ich nächste Woche in Berlin bin. Ich melde mich noch einmal, [bevor] ich abreise.
+    </Sprachbausteine>\`
+    - \`words\`: The word bank, lettered a, b, c, ... in the given order. Include more words than gaps as distractors.
+    - Gaps are \`[answer]\` where the answer is one of the words. Each word can be the answer of only one gap.
+    - \`start\`: Optional number of the first gap.
+
+12. **TextMatching** (Match short texts to headlines, telc Leseverstehen Teil 1)
+    \`<TextMatching headlines={["Neue Radwege in der Stadt", "Streik bei der Bahn", "Mehr Geld für Schulen"]}>
+      <Passage answer="b">
+        Ab Montag fallen viele Züge aus, weil die Lokführer mehr Lohn fordern.
+      </Passage>
+      <Passage answer="a">
+        Die Stadt baut bis zum Sommer zehn Kilometer neue Wege für Fahrräder.
+      </Passage>
+    </TextMatching>\`
+    - \`headlines\`: Lettered a, b, c, ... in the given order. Include more headlines than texts as distractors.
+    - \`answer\`: Letter of the matching headline. Each headline can be the answer of only one Passage.
+
+13. **TrueFalse** (Judge statements about a text or recording, telc Hörverstehen)
+    \`<TrueFalse notGiven statements={[{"text": "Der Zug fährt um 8 Uhr ab.", "answer": "false"}, {"text": "Der Zug hat Verspätung.", "answer": "true"}, {"text": "Im Zug gibt es ein Restaurant.", "answer": "not-given"}]}>
+      Der Zug nach München fährt heute nicht um 8 Uhr, sondern mit 20 Minuten Verspätung um 8:20 Uhr ab.
+    </TrueFalse>\`
+    - Children: The source text, or an \`AudioPhrase\`/\`Media\` the statements are about.
+    - \`answer\`: "true", "false" or "not-given". Use "not-given" only together with the \`notGiven\` prop.
+
+14. **WritingTask** (Free writing with Leitpunkte, telc Schriftlicher Ausdruck)
+    \`<WritingTask minWords={130} maxWords={170} minutes={30} points={["Grund für Ihr Schreiben", "Was war nicht in Ordnung?", "Was erwarten Sie jetzt?"]}>
+      Sie haben in einem Hotel übernachtet und waren mit dem Service nicht zufrieden. Schreiben Sie eine Beschwerde an die Hotelleitung.
+    </WritingTask>\`
+    - \`points\`: The Leitpunkte the text must cover. Leave out for a short free-text answer.
+    - \`minWords\`, \`maxWords\`, \`minutes\`: Optional word range and time limit.
+
 ### Rules
 1. **Output Format**:
    - You can generate theoretical explanations using standard Markdown (headers, lists, bold/italic).
@@ -100,3 +136,85 @@ You MUST output ONLY the valid MDX code for the requested exercise(s). Do not in
 5. **Interactive Media**: If the user provides a transcript or subtitle data, use it to create relevant questions at appropriate timestamps using the \`Checkpoint\` component.
 6. **Separation**: If multiple exercises are requested, separate them with two newlines.
 `;
+
+// Feedback on a learner's text. {{language}} is replaced with the learner's
+// translation language; the request itself is WRITING_FEEDBACK_REQUEST.
+export const WRITING_FEEDBACK_PROMPT = `
+You are an experienced telc examiner and German teacher.
+A learner sends you a text they wrote for a writing task. Correct it and rate it by the telc criteria.
+
+Reply with ONLY a JSON object, no code block and no other text:
+{
+  "correctedText": "The whole text with every mistake corrected, keeping the learner's wording where it is correct",
+  "annotations": [
+    {
+      "original": "The wrong words, copied exactly from the learner's text",
+      "correction": "The corrected words",
+      "category": "case",
+      "explanation": "Short explanation of the rule"
+    }
+  ],
+  "criteria": [
+    { "criterion": "content", "band": "B", "comment": "..." },
+    { "criterion": "communication", "band": "A", "comment": "..." },
+    { "criterion": "accuracy", "band": "C", "comment": "..." }
+  ],
+  "band": "B",
+  "summary": "Two or three sentences on what to work on next"
+}
+
+### Rules
+1. **Annotations**: One annotation per mistake, in the order they appear in the text. \`original\` must be an exact substring of the learner's text so it can be highlighted.
+2. **Categories**: Use exactly one of:
+   - \`case\`: Wrong case, article or adjective ending (Kasus)
+   - \`word-order\`: Verb position, word order in main and subordinate clauses (Satzbau)
+   - \`connectors\`: Missing, wrong or repetitive Konnektoren (weil, deshalb, obwohl, ...)
+   - \`verb\`: Conjugation, tense, separable verbs
+   - \`spelling\`: Spelling, capitalization, punctuation
+   - \`vocabulary\`: Wrong or unidiomatic word choice, wrong register (du/Sie)
+   - \`other\`: Anything else
+3. **Criteria**: Rate each telc criterion with a band from "A" (fully appropriate) to "D" (not appropriate):
+   - \`content\`: Are all Leitpunkte covered appropriately? (Inhaltliche Angemessenheit)
+   - \`communication\`: Text type, salutation and closing, register, linking of sentences (Kommunikative Gestaltung)
+   - \`accuracy\`: Grammar and spelling (Formale Richtigkeit)
+   \`band\` is your estimate for the text as a whole.
+4. **Language**: Write \`explanation\`, \`comment\` and \`summary\` in {{language}}. Do not translate the learner's text or the corrections.
+5. **Valid JSON**: Escape quotes and line breaks inside strings.
+`;
+
+export const WRITING_FEEDBACK_REQUEST = `
+### Task
+{{task}}
+
+### Leitpunkte
+{{points}}
+
+### Length
+{{words}}
+
+### Learner's text
+{{text}}
+`;
+
+// Explanation of one wrong answer. {{language}} is replaced with the learner's
+// translation language; the request itself is EXPLAIN_MISTAKE_REQUEST.
+export const EXPLAIN_MISTAKE_PROMPT = `
+You are a patient German teacher.
+A learner answered an exercise wrongly. Explain in two to four sentences which grammar rule decides the correct answer and why the learner's answer does not fit.
+
+### Rules
+1. **Language**: Write the explanation in {{language}}. Quote German words and examples as they are, do not translate them.
+2. **Focus**: Explain only this mistake. Do not correct other parts of the exercise and do not repeat the exercise.
+3. **Format**: Reply with the explanation as plain text, without a heading, a greeting, Markdown or a code block.
+`;
+
+export const EXPLAIN_MISTAKE_REQUEST = `
+### Exercise
+{{exercise}}
+
+### Correct answer
+{{correct}}
+
+### Learner's answer
+{{given}}
+`;
@@ -0,0 +1,72 @@
+import React, { createContext, useContext, useEffect, useId, useMemo, useRef, type ReactNode } from 'react';
+
+// Raw score of one exercise: correct items out of all items
+export interface ExerciseScore {
+    score: number;
+    maxScore: number;
+}
+
+interface ExamContextType {
+    // Called with null when the exercise unmounts
+    reportScore: (key: string, score: ExerciseScore | null) => void;
+    // Registers a callback for the end of the section, returns its unsubscribe
+    onSectionEnd: (callback: () => void) => () => void;
+}
+
+const ExamContext = createContext<ExamContextType | undefined>(undefined);
+
+// Wraps the content of an exam section. Exercises inside hide their Check buttons
+// and feedback and report their current score instead.
+export const ExamSectionProvider: React.FC<{
+    children: ReactNode;
+    onScore: ExamContextType['reportScore'];
+    onSectionEnd: ExamContextType['onSectionEnd'];
+}> = ({ children, onScore, onSectionEnd }) => {
+    const value = useMemo(() => ({ reportScore: onScore, onSectionEnd }), [onScore, onSectionEnd]);
+    return (
+        <ExamContext.Provider value={value}>
+            {children}
+        </ExamContext.Provider>
+    );
+};
+
+// Whether the component is shown in an exam, for exercises that have no score to report
+export function useInExam(): boolean {
+    return useContext(ExamContext) !== undefined;
+}
+
+/**
+ * Reports the score of an exercise while it is part of an exam. Unlike the other
+ * context hooks this one works outside its provider: exercises use it everywhere.
+ * @returns Whether the exercise is shown in an exam, i.e. must not give feedback
+ */
+export function useExamScore(score: number, maxScore: number): boolean {
+    const context = useContext(ExamContext);
+    const key = useId();
+    const reportScore = context?.reportScore;
+
+    useEffect(() => {
+        reportScore?.(key, { score, maxScore });
+    }, [reportScore, key, score, maxScore]);
+
+    useEffect(() => {
+        return () => reportScore?.(key, null);
+    }, [reportScore, key]);
+
+    return context !== undefined;
+}
+
+/**
+ * Runs the callback when the exam section the component is shown in ends, because
+ * its time is up or the learner moved on. Does nothing outside an exam.
+ */
+export function useExamSectionEnd(callback: () => void): void {
+    const onSectionEnd = useContext(ExamContext)?.onSectionEnd;
+    const callbackRef = useRef(callback);
+
+    useEffect(() => {
+        callbackRef.current = callback;
+    });
+
+    useEffect(() => onSectionEnd?.(() => callbackRef.current()), [onSectionEnd]);
+}
@@ -0,0 +1,124 @@
+import { createContext, useContext, useCallback, useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import {
+    DEFAULT_PROFILE_ID,
+    PROFILES_KEY,
+    createProfileId,
+    hashPin,
+    loadActiveProfileId,
+    loadProfiles,
+    profileStorageKey,
+    removeProfileLocalData,
+    saveActiveProfileId,
+    saveProfiles,
+    verifyPin,
+    type LearnerProfile
+} from '../lib/profiles/profiles';
+import { deleteProgressStore } from '../lib/progress/progressStore';
+
+interface ProfileContextType {
+    profiles: LearnerProfile[];
+    activeProfile: LearnerProfile;
+    storageKey: (baseKey: string) => string;
+    createProfile: (name: string) => LearnerProfile;
+    renameProfile: (profileId: string, name: string) => void;
+    deleteProfile: (profileId: string) => void;
+    switchProfile: (profileId: string, pin?: string) => Promise<boolean>;
+    setProfilePin: (pin: string | null) => Promise<void>;
+}
+
+const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+export function ProfileProvider({ children }: { children: ReactNode }) {
+    const [profiles, setProfiles] = useState<LearnerProfile[]>(() => loadProfiles());
+    const [activeProfileId, setActiveProfileId] = useState<string>(() => loadActiveProfileId(profiles));
+
+    const activeProfile = profiles.find(p => p.id === activeProfileId)
+        ?? profiles.find(p => p.id === DEFAULT_PROFILE_ID)!;
+
+    const updateProfiles = useCallback((next: LearnerProfile[]) => {
+        saveProfiles(next);
+        setProfiles(next);
+    }, []);
+
+    // Profiles added, renamed or deleted in another tab
+    useEffect(() => {
+        const handleStorage = (e: StorageEvent) => {
+            if (e.storageArea === localStorage && e.key === PROFILES_KEY) {
+                setProfiles(loadProfiles());
+            }
+        };
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
+    }, []);
+
+    const storageKey = useCallback((baseKey: string) => {
+        return profileStorageKey(activeProfile.id, baseKey);
+    }, [activeProfile.id]);
+
+    // New profiles start without a PIN and become the active profile
+    const createProfile = useCallback((name: string): LearnerProfile => {
+        const profile: LearnerProfile = { id: createProfileId(), name, createdAt: Date.now() };
+        updateProfiles([...profiles, profile]);
+        saveActiveProfileId(profile.id);
+        setActiveProfileId(profile.id);
+        return profile;
+    }, [profiles, updateProfiles]);
+
+    const renameProfile = useCallback((profileId: string, name: string) => {
+        updateProfiles(profiles.map(p => (p.id === profileId ? { ...p, name } : p)));
+    }, [profiles, updateProfiles]);
+
+    // The default profile can't be deleted; deleting the active one switches to it
+    const deleteProfile = useCallback((profileId: string) => {
+        if (profileId === DEFAULT_PROFILE_ID) return;
+        updateProfiles(profiles.filter(p => p.id !== profileId));
+        removeProfileLocalData(profileId);
+        deleteProgressStore(profileId).catch(error => console.error('Error deleting profile progress:', error));
+        if (profileId === activeProfileId) {
+            saveActiveProfileId(DEFAULT_PROFILE_ID);
+            setActiveProfileId(DEFAULT_PROFILE_ID);
+        }
+    }, [profiles, activeProfileId, updateProfiles]);
+
+    const switchProfile = useCallback(async (profileId: string, pin: string = ''): Promise<boolean> => {
+        const profile = profiles.find(p => p.id === profileId);
+        if (!profile || !(await verifyPin(profile, pin))) return false;
+        saveActiveProfileId(profile.id);
+        setActiveProfileId(profile.id);
+        return true;
+    }, [profiles]);
+
+    // PINs are only available on named profiles so the default one can't be locked out
+    const setProfilePin = useCallback(async (pin: string | null) => {
+        if (activeProfile.id === DEFAULT_PROFILE_ID) return;
+        const pinHash = pin ? await hashPin(activeProfile.id, pin) : undefined;
+        updateProfiles(profiles.map(p => (p.id === activeProfile.id ? { ...p, pinHash } : p)));
+    }, [activeProfile.id, profiles, updateProfiles]);
+
+    // Consumers only re-render when something they can read has changed
+    const value = useMemo<ProfileContextType>(() => ({
+        profiles,
+        activeProfile,
+        storageKey,
+        createProfile,
+        renameProfile,
+        deleteProfile,
+        switchProfile,
+        setProfilePin
+    }), [profiles, activeProfile, storageKey, createProfile, renameProfile, deleteProfile, switchProfile, setProfilePin]);
+
+    return (
+        <ProfileContext.Provider value={value}>
+            {children}
+        </ProfileContext.Provider>
+    );
+}
+
+export function useProfile(): ProfileContextType {
+    const context = useContext(ProfileContext);
+    if (!context) {
+        throw new Error('useProfile must be used within a ProfileProvider');
+    }
+    return context;
+}
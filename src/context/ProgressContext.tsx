@@ -1,83 +1,379 @@
-import { createContext, useContext, useCallback, useState } from 'react';
+import { createContext, useContext, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { ReactNode } from 'react';
 import {
-    saveExerciseProgress,
+    completeExercise,
+    appendExerciseAttempt,
+    getExerciseAttempts,
     isExerciseCompleted,
     getLessonProgress,
     getFolderProgress,
     getCourseProgress,
-    resetAllProgress,
+    getDueReviews,
+    nextModifiedAt,
+    type ExerciseProgress,
+    type ExerciseAttempt,
     type LessonProgress,
     type FolderProgress,
     type CourseProgress
 } from '../utils/progressStorage';
+import { mergeProgressEntry } from '../utils/progressTransfer';
+import { openProgressStore, type ProgressStore } from '../lib/progress/progressStore';
+import { buildProgressIndex, updateProgressIndex, type ProgressIndex } from '../lib/progress/progressIndex';
 import { normalizePath } from '../utils/pathUtils';
+import { openCrossTabChannel, type CrossTabChannel } from '../utils/crossTab';
+import {
+    ProgressSyncClient,
+    SYNC_CONFIG_KEY,
+    isRemoteNewer,
+    loadSyncConfig,
+    resetSyncState,
+    saveSyncConfig,
+    type SyncConfig,
+    type SyncState
+} from '../lib/progress/syncClient';
+import { useProfile } from './ProfileContext';
 
 interface ProgressContextType {
-    markExerciseComplete: (exerciseId: string, lessonPath: string) => void;
+    isLoaded: boolean;
+    markExerciseComplete: (exerciseId: string, lessonPath: string, quality?: number) => void;
+    recordAttempt: (exerciseId: string, lessonPath: string, attempt: ExerciseAttempt) => void;
+    getAttempts: (exerciseId: string) => ExerciseAttempt[];
     isExerciseComplete: (exerciseId: string) => boolean;
+    migrateExerciseProgress: (previousIds: string[], exerciseId: string) => void;
+    getDueReviewsData: () => ExerciseProgress[];
     getLessonProgressData: (lessonPath: string, totalExercises: number) => LessonProgress;
     getFolderProgressData: (folderPath: string, lessons: Array<{ path: string; exerciseCount: number }>) => FolderProgress;
     getCourseProgressData: (allLessons: Array<{ path: string; exerciseCount: number; folder: string }>) => CourseProgress;
+    getAllProgressData: () => Map<string, ExerciseProgress>;
+    replaceProgress: (progress: Map<string, ExerciseProgress>) => void;
+    removeProgressEntries: (exerciseIds: string[]) => void;
     resetProgress: () => void;
     refreshProgress: () => void;
+    syncConfig: SyncConfig | null;
+    syncState: SyncState;
+    updateSyncConfig: (config: SyncConfig | null) => void;
+    syncNow: () => void;
 }
 
 const ProgressContext = createContext<ProgressContextType | undefined>(undefined);
 
+interface ProgressState {
+    entries: Map<string, ExerciseProgress>;
+    index: ProgressIndex; // lessonPath -> completed/attempt counters, kept in step with entries
+}
+
+// Sent to other tabs after a write has reached the store
+type ProgressMessage =
+    | { type: 'entries'; entries: ExerciseProgress[] }
+    | { type: 'reload' };
+
+const PROGRESS_CHANNEL = 'yazula_progress';
+
+const createState = (entries: Map<string, ExerciseProgress>): ProgressState => ({
+    entries,
+    index: buildProgressIndex(entries)
+});
+
+// Scoped to the active learner profile. The provider is remounted when the
+// profile changes; the store is opened on first use and closed on unmount.
 export function ProgressProvider({ children }: { children: ReactNode }) {
-    // Force re-render trigger
-    const [, setRefreshKey] = useState(0);
+    const { activeProfile, storageKey } = useProfile();
+    // Progress is kept in memory and written through to the configured store
+    const [state, setState] = useState<ProgressState>(() => createState(new Map()));
+    const [isLoaded, setIsLoaded] = useState(false);
+    const stateRef = useRef(state);
+    const hasLoadedRef = useRef(false);
+    const storeRef = useRef<Promise<ProgressStore> | null>(null);
+    const channelRef = useRef<CrossTabChannel<ProgressMessage> | null>(null);
+    const [syncConfig, setSyncConfig] = useState<SyncConfig | null>(() => loadSyncConfig(storageKey(SYNC_CONFIG_KEY)));
+    const [syncState, setSyncState] = useState<SyncState>(() => ({ status: syncConfig ? 'idle' : 'disabled', pending: 0 }));
+    const syncClientRef = useRef<ProgressSyncClient | null>(null);
+    // Writes made before the sync client started, pushed once it has
+    const unsyncedRef = useRef<ExerciseProgress[]>([]);
 
+    const commit = useCallback((next: ProgressState) => {
+        stateRef.current = next;
+        setState(next);
+    }, []);
 
+    const getStore = useCallback(() => {
+        storeRef.current ??= openProgressStore(activeProfile.id);
+        return storeRef.current;
+    }, [activeProfile.id]);
 
-    const markExerciseComplete = useCallback((exerciseId: string, lessonPath: string) => {
-        saveExerciseProgress(exerciseId, normalizePath(lessonPath));
-        setRefreshKey(prev => prev + 1); // Trigger re-render
+    // Writes already queued on the store promise run before it is closed
+    useEffect(() => () => {
+        const store = storeRef.current;
+        storeRef.current = null;
+        store?.then(s => s.close()).catch(() => {});
     }, []);
 
-    const isExerciseComplete = useCallback((exerciseId: string): boolean => {
-        return isExerciseCompleted(exerciseId);
+    const persist = useCallback((write: (store: ProgressStore) => Promise<void>, message: ProgressMessage) => {
+        getStore()
+            .then(write)
+            .then(() => channelRef.current?.post(message))
+            .catch(error => console.error('Error saving progress:', error));
+    }, [getStore]);
+
+    // Queue entries for the sync server, or hold them until the client starts
+    const queueSync = useCallback((updated: ExerciseProgress[]) => {
+        if (syncClientRef.current) syncClientRef.current.enqueue(updated);
+        else if (syncConfig) unsyncedRef.current.push(...updated);
+    }, [syncConfig]);
+
+    // Apply entries to the in-memory state, keeping the lesson index in step
+    const applyEntries = useCallback((updated: ExerciseProgress[]) => {
+        const { entries, index } = stateRef.current;
+        const next = new Map(entries);
+        let nextIndex = index;
+        updated.forEach(entry => {
+            nextIndex = updateProgressIndex(nextIndex, next.get(entry.exerciseId), entry);
+            next.set(entry.exerciseId, entry);
+        });
+        commit({ entries: next, index: nextIndex });
+    }, [commit]);
+
+    const load = useCallback(async () => {
+        try {
+            const store = await getStore();
+            const loaded = await store.loadAll();
+            // Keep anything recorded while the first load was still in flight
+            const changed: ExerciseProgress[] = [];
+            if (!hasLoadedRef.current) {
+                stateRef.current.entries.forEach(entry => {
+                    const stored = loaded.get(entry.exerciseId);
+                    const merged = stored ? mergeProgressEntry(stored, entry) : entry;
+                    if (merged !== stored) changed.push(merged);
+                    loaded.set(entry.exerciseId, merged);
+                });
+                hasLoadedRef.current = true;
+            }
+            commit(createState(loaded));
+            // Sync only starts after the first load, so merged entries wait for it
+            if (changed.length > 0) {
+                persist(s => s.save(changed), { type: 'entries', entries: changed });
+                unsyncedRef.current.push(...changed);
+            }
+        } catch (error) {
+            console.error('Error loading progress:', error);
+        } finally {
+            setIsLoaded(true);
+        }
+    }, [getStore, commit, persist]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    // Pick up writes made in other tabs; they have already been persisted there
+    useEffect(() => {
+        const channel = openCrossTabChannel<ProgressMessage>(storageKey(PROGRESS_CHANNEL), message => {
+            if (message.type === 'entries') applyEntries(message.entries);
+            else load();
+        });
+        channelRef.current = channel;
+        return () => {
+            channel.close();
+            channelRef.current = null;
+        };
+    }, [applyEntries, load, storageKey]);
+
+    // Entries pulled from the sync server that are newer than the local ones
+    const applyRemoteEntries = useCallback((remote: ExerciseProgress[]) => {
+        const newer = remote.filter(entry => isRemoteNewer(stateRef.current.entries.get(entry.exerciseId), entry));
+        if (newer.length === 0) return;
+        applyEntries(newer);
+        persist(store => store.save(newer), { type: 'entries', entries: newer });
+    }, [applyEntries, persist]);
+
+    // Sync starts after the first local load so conflicts are resolved against real data
+    useEffect(() => {
+        if (!syncConfig || !isLoaded) return;
+        const client = new ProgressSyncClient({
+            config: syncConfig,
+            storageKey,
+            getLocalEntries: () => Array.from(stateRef.current.entries.values()),
+            onRemoteEntries: applyRemoteEntries,
+            onStateChange: setSyncState
+        });
+        syncClientRef.current = client;
+        client.start();
+        client.enqueue(unsyncedRef.current);
+        unsyncedRef.current = [];
+        return () => {
+            client.stop();
+            syncClientRef.current = null;
+        };
+    }, [syncConfig, isLoaded, storageKey, applyRemoteEntries]);
+
+    const updateSyncConfig = useCallback((config: SyncConfig | null) => {
+        const previous = loadSyncConfig(storageKey(SYNC_CONFIG_KEY));
+        if (previous?.serverUrl !== config?.serverUrl || previous?.learnerId !== config?.learnerId) {
+            resetSyncState(storageKey);
+        }
+        saveSyncConfig(storageKey(SYNC_CONFIG_KEY), config);
+        setSyncConfig(config);
+        setSyncState({ status: config ? 'idle' : 'disabled', pending: 0 });
+    }, [storageKey]);
+
+    const syncNow = useCallback(() => {
+        syncClientRef.current?.sync();
     }, []);
 
+    const updateEntry = useCallback((entry: ExerciseProgress) => {
+        applyEntries([entry]);
+        persist(store => store.save([entry]), { type: 'entries', entries: [entry] });
+        queueSync([entry]);
+    }, [applyEntries, persist, queueSync]);
+
+    const markExerciseComplete = useCallback((exerciseId: string, lessonPath: string, quality?: number) => {
+        updateEntry(completeExercise(stateRef.current.entries.get(exerciseId), exerciseId, normalizePath(lessonPath), quality));
+    }, [updateEntry]);
+
+    const recordAttempt = useCallback((exerciseId: string, lessonPath: string, attempt: ExerciseAttempt) => {
+        updateEntry(appendExerciseAttempt(stateRef.current.entries.get(exerciseId), exerciseId, normalizePath(lessonPath), attempt));
+    }, [updateEntry]);
+
+    // Move progress recorded under previous IDs of an exercise to its current ID
+    const migrateExerciseProgress = useCallback((previousIds: string[], exerciseId: string) => {
+        const { entries: current } = stateRef.current;
+        const moved = previousIds.filter(id => id !== exerciseId && current.has(id));
+        if (moved.length === 0) return;
+
+        let merged = current.get(exerciseId);
+        moved.forEach(id => {
+            const entry = { ...current.get(id)!, exerciseId };
+            merged = merged ? mergeProgressEntry(merged, entry) : entry;
+        });
+        // A write of its own, so sync replaces the copies on other devices
+        const migrated = { ...merged!, modifiedAt: nextModifiedAt(merged) };
+
+        const next = new Map(current);
+        moved.forEach(id => next.delete(id));
+        next.set(exerciseId, migrated);
+        commit(createState(next));
+        persist(async store => {
+            await store.save([migrated]);
+            await store.remove(moved);
+        }, { type: 'reload' });
+        queueSync([migrated]);
+    }, [commit, persist, queueSync]);
+
+    const { entries, index } = state;
+
+    // Aggregates are cached until the index changes. Folder and course results are
+    // keyed by the lessons array, so callers should keep that array stable.
+    const selectorCache = useMemo(() => ({
+        lessons: new Map<string, LessonProgress>(),
+        folders: new WeakMap<object, FolderProgress>(),
+        courses: new WeakMap<object, CourseProgress>()
+    }), [index]);
+
+    const getAttempts = useCallback((exerciseId: string): ExerciseAttempt[] => {
+        return getExerciseAttempts(entries, exerciseId);
+    }, [entries]);
+
+    const isExerciseComplete = useCallback((exerciseId: string): boolean => {
+        return isExerciseCompleted(entries, exerciseId);
+    }, [entries]);
+
+    const getDueReviewsData = useCallback((): ExerciseProgress[] => {
+        return getDueReviews(entries);
+    }, [entries]);
+
     const getLessonProgressData = useCallback((lessonPath: string, totalExercises: number): LessonProgress => {
-        return getLessonProgress(lessonPath, totalExercises);
-    }, []);
+        const key = `${lessonPath}#${totalExercises}`;
+        let result = selectorCache.lessons.get(key);
+        if (!result) {
+            result = getLessonProgress(index, lessonPath, totalExercises);
+            selectorCache.lessons.set(key, result);
+        }
+        return result;
+    }, [index, selectorCache]);
 
     const getFolderProgressData = useCallback((
         folderPath: string,
         lessons: Array<{ path: string; exerciseCount: number }>
     ): FolderProgress => {
-        return getFolderProgress(folderPath, lessons);
-    }, []);
+        let result = selectorCache.folders.get(lessons);
+        if (!result || result.path !== folderPath) {
+            result = getFolderProgress(index, folderPath, lessons);
+            selectorCache.folders.set(lessons, result);
+        }
+        return result;
+    }, [index, selectorCache]);
 
     const getCourseProgressData = useCallback((
         allLessons: Array<{ path: string; exerciseCount: number; folder: string }>
     ): CourseProgress => {
-        return getCourseProgress(allLessons);
-    }, []);
+        let result = selectorCache.courses.get(allLessons);
+        if (!result) {
+            result = getCourseProgress(index, allLessons);
+            selectorCache.courses.set(allLessons, result);
+        }
+        return result;
+    }, [index, selectorCache]);
+
+    const getAllProgressData = useCallback((): Map<string, ExerciseProgress> => {
+        return new Map(entries);
+    }, [entries]);
+
+    // Only entries that are new or were rewritten by the merge go to the sync server
+    const replaceProgress = useCallback((next: Map<string, ExerciseProgress>) => {
+        const current = stateRef.current.entries;
+        const changed = Array.from(next.values()).filter(entry => current.get(entry.exerciseId) !== entry);
+        commit(createState(new Map(next)));
+        persist(store => store.replaceAll(next), { type: 'reload' });
+        queueSync(changed);
+    }, [commit, persist, queueSync]);
+
+    const removeProgressEntries = useCallback((exerciseIds: string[]) => {
+        const next = new Map(stateRef.current.entries);
+        exerciseIds.forEach(id => next.delete(id));
+        commit(createState(next));
+        persist(store => store.remove(exerciseIds), { type: 'reload' });
+    }, [commit, persist]);
 
     const resetProgress = useCallback(() => {
-        resetAllProgress();
-        setRefreshKey(prev => prev + 1); // Trigger re-render
-    }, []);
+        commit(createState(new Map()));
+        persist(store => store.clear(), { type: 'reload' });
+    }, [commit, persist]);
 
+    // Re-read the store, e.g. after another component wrote to it directly
     const refreshProgress = useCallback(() => {
-        setRefreshKey(prev => prev + 1);
-    }, []);
+        load();
+    }, [load]);
+
+    // Consumers only re-render when something they can read has changed
+    const value = useMemo<ProgressContextType>(() => ({
+        isLoaded,
+        markExerciseComplete,
+        recordAttempt,
+        getAttempts,
+        isExerciseComplete,
+        migrateExerciseProgress,
+        getDueReviewsData,
+        getLessonProgressData,
+        getFolderProgressData,
+        getCourseProgressData,
+        getAllProgressData,
+        replaceProgress,
+        removeProgressEntries,
+        resetProgress,
+        refreshProgress,
+        syncConfig,
+        syncState,
+        updateSyncConfig,
+        syncNow
+    }), [
+        isLoaded, markExerciseComplete, recordAttempt, getAttempts, isExerciseComplete,
+        migrateExerciseProgress, getDueReviewsData, getLessonProgressData, getFolderProgressData,
+        getCourseProgressData, getAllProgressData, replaceProgress, removeProgressEntries,
+        resetProgress, refreshProgress, syncConfig, syncState, updateSyncConfig, syncNow
+    ]);
 
     return (
-        <ProgressContext.Provider
-            value={{
-                markExerciseComplete,
-                isExerciseComplete,
-                getLessonProgressData,
-                getFolderProgressData,
-                getCourseProgressData,
-                resetProgress,
-                refreshProgress
-            }}
-        >
+        <ProgressContext.Provider value={value}>
             {children}
         </ProgressContext.Provider>
     );
@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
+import { useProfile } from './ProfileContext';
 
 export interface LanguageSettings {
     learningLang: string;
@@ -14,6 +15,7 @@ export interface LanguageSettings {
 interface SettingsContextType {
     showHints: boolean;
     toggleShowHints: () => void;
+    setShowHints: (showHints: boolean) => void;
     languageSettings: LanguageSettings;
     updateLanguageSettings: (settings: Partial<LanguageSettings>) => void;
 }
@@ -29,19 +31,29 @@ const defaultLanguageSettings: LanguageSettings = {
     translationVoice: ''
 };
 
+const SHOW_HINTS_KEY = 'yazula_settings_showHints';
+const LANGUAGE_KEY = 'yazula_settings_language';
+
+const parseLanguageSettings = (saved: string): LanguageSettings => ({ ...defaultLanguageSettings, ...JSON.parse(saved) });
+
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
+// Settings are stored per learner profile; the provider is remounted when the profile changes
 export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { storageKey } = useProfile();
+    const showHintsKey = storageKey(SHOW_HINTS_KEY);
+    const languageKey = storageKey(LANGUAGE_KEY);
+
     const [showHints, setShowHints] = useState<boolean>(() => {
-        const saved = localStorage.getItem('yazula_settings_showHints');
+        const saved = localStorage.getItem(showHintsKey);
         return saved !== null ? JSON.parse(saved) : true;
     });
 
     const [languageSettings, setLanguageSettings] = useState<LanguageSettings>(() => {
-        const saved = localStorage.getItem('yazula_settings_language');
+        const saved = localStorage.getItem(languageKey);
         if (saved) {
             try {
-                return { ...defaultLanguageSettings, ...JSON.parse(saved) };
+                return parseLanguageSettings(saved);
             } catch (e) {
                 console.error('Failed to parse language settings:', e);
             }
@@ -50,12 +62,28 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     });
 
     useEffect(() => {
-        localStorage.setItem('yazula_settings_showHints', JSON.stringify(showHints));
-    }, [showHints]);
+        localStorage.setItem(showHintsKey, JSON.stringify(showHints));
+    }, [showHintsKey, showHints]);
 
     useEffect(() => {
-        localStorage.setItem('yazula_settings_language', JSON.stringify(languageSettings));
-    }, [languageSettings]);
+        localStorage.setItem(languageKey, JSON.stringify(languageSettings));
+    }, [languageKey, languageSettings]);
+
+    // Follow changes made in other tabs. Writing back the same value does not fire
+    // another storage event, so this doesn't bounce between tabs.
+    useEffect(() => {
+        const handleStorage = (e: StorageEvent) => {
+            if (e.storageArea !== localStorage || e.newValue === null) return;
+            try {
+                if (e.key === showHintsKey) setShowHints(JSON.parse(e.newValue));
+                else if (e.key === languageKey) setLanguageSettings(parseLanguageSettings(e.newValue));
+            } catch (error) {
+                console.error('Failed to apply settings from another tab:', error);
+            }
+        };
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
+    }, [showHintsKey, languageKey]);
 
     const toggleShowHints = () => {
         setShowHints(prev => !prev);
@@ -73,7 +101,7 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     };
 
     return (
-        <SettingsContext.Provider value={{ showHints, toggleShowHints, languageSettings, updateLanguageSettings }}>
+        <SettingsContext.Provider value={{ showHints, toggleShowHints, setShowHints, languageSettings, updateLanguageSettings }}>
             {children}
         </SettingsContext.Provider>
     );
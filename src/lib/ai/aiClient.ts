@@ -0,0 +1,45 @@
+// Client for the AI endpoints under /api/ai. The provider, model and key are
+// stored by the server (see AISettingsModal); the key never reaches the browser.
+
+export interface AIConfigStatus {
+    provider: string;
+    baseUrl: string;
+    model: string;
+    hasKey: boolean;
+}
+
+export interface GenerateRequest {
+    system: string;
+    prompt: string;
+    json?: boolean; // Ask the provider for a JSON reply where it supports that
+}
+
+// Error bodies use { error } or the { Message } / { Error } of older servers
+async function readError(response: Response): Promise<string> {
+    try {
+        const body = await response.json();
+        const message = body.error ?? body.Error ?? body.Message;
+        if (typeof message === 'string' && message) return message;
+    } catch {
+        // Not JSON, fall back to the status
+    }
+    return `AI server responded with ${response.status} ${response.statusText}`;
+}
+
+export async function fetchAIConfig(): Promise<AIConfigStatus> {
+    const response = await fetch('/api/ai/config');
+    if (!response.ok) throw new Error(await readError(response));
+    return response.json();
+}
+
+export async function generateText(request: GenerateRequest): Promise<string> {
+    const response = await fetch('/api/ai/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+    });
+    if (!response.ok) throw new Error(await readError(response));
+    const { text } = await response.json();
+    if (typeof text !== 'string') throw new Error('AI server sent no text');
+    return text;
+}
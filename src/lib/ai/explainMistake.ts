@@ -0,0 +1,63 @@
+import { EXPLAIN_MISTAKE_PROMPT, EXPLAIN_MISTAKE_REQUEST } from '../../constants/aiPrompts';
+import { generateText } from './aiClient';
+import { fillTemplate, languageName } from './promptTemplate';
+
+// Explanations the AI gave, per exercise ID and wrong answer. Stored per profile:
+// pass this through storageKey() from useProfile
+export const MISTAKE_EXPLANATIONS_KEY = 'yazula_mistake_explanations';
+
+const MAX_CACHED = 200;
+
+export interface MistakeExplanationRequest {
+    source: string; // The exercise as text, with the gap in question marked
+    correctAnswer: string;
+    learnerAnswer: string;
+    translationLang: string; // e.g. "ru-RU", the explanation is written in this language
+}
+
+interface CachedExplanation {
+    lang: string;
+    text: string;
+}
+
+const cacheEntry = (exerciseId: string, learnerAnswer: string) => `${exerciseId}\n${learnerAnswer.trim().toLowerCase()}`;
+
+function loadCache(key: string): Record<string, CachedExplanation> {
+    try {
+        const data = localStorage.getItem(key);
+        return data ? JSON.parse(data) : {};
+    } catch (error) {
+        console.error('Error loading mistake explanations:', error);
+        return {};
+    }
+}
+
+// An explanation in another language than the current one counts as missing
+export function loadMistakeExplanation(key: string, exerciseId: string, learnerAnswer: string, lang: string): string | null {
+    const cached = loadCache(key)[cacheEntry(exerciseId, learnerAnswer)];
+    return cached?.lang === lang ? cached.text : null;
+}
+
+// Keeps the newest MAX_CACHED explanations
+export function saveMistakeExplanation(key: string, exerciseId: string, learnerAnswer: string, lang: string, text: string): void {
+    const entry = cacheEntry(exerciseId, learnerAnswer);
+    const cache = loadCache(key);
+    // Re-inserted so it moves to the end, where the newest are
+    delete cache[entry];
+    cache[entry] = { lang, text };
+    localStorage.setItem(key, JSON.stringify(Object.fromEntries(Object.entries(cache).slice(-MAX_CACHED))));
+}
+
+export async function requestMistakeExplanation(request: MistakeExplanationRequest): Promise<string> {
+    const reply = await generateText({
+        system: fillTemplate(EXPLAIN_MISTAKE_PROMPT, { language: languageName(request.translationLang) }),
+        prompt: fillTemplate(EXPLAIN_MISTAKE_REQUEST, {
+            exercise: request.source.trim(),
+            correct: request.correctAnswer.trim(),
+            given: request.learnerAnswer.trim() || '(no answer)'
+        })
+    });
+    const text = reply.replace(/^```\w*\n?|\n?```$/g, '').trim();
+    if (!text) throw new Error('The AI reply is empty');
+    return text;
+}
@@ -0,0 +1,13 @@
+// Replace {{name}} placeholders of the prompts in constants/aiPrompts.ts
+export const fillTemplate = (template: string, values: Record<string, string>) =>
+    template.replace(/\{\{(\w+)\}\}/g, (match, name: string) => values[name] ?? match);
+
+// "ru-RU" -> "Russian", for telling the model which language to answer in
+export const languageName = (lang: string) => {
+    const code = lang.split('-')[0];
+    try {
+        return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code;
+    } catch {
+        return code;
+    }
+};
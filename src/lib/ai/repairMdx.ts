@@ -0,0 +1,126 @@
+import { EXERCISES } from '../exercises/registry';
+import { lintMdx, type ContentDiagnostic } from '../lint/contentRules';
+import { flattenExercises, parseExercises } from '../../utils/mdxParser';
+
+export interface MdxRepairResult {
+    mdx: string;
+    repairs: string[]; // What was changed, for the report
+    diagnostics: ContentDiagnostic[]; // Errors left after repairing
+    exerciseCount: number;
+    ok: boolean; // Whether the MDX may be inserted
+}
+
+// Containers (Quiz, Dialogue, ...) and the elements they read (Option, Message, ...)
+// are written with every tag on its own line
+const BLOCK_TAGS = new Set(EXERCISES.flatMap(exercise => exercise.elements
+    ? [exercise.type, ...(exercise.aliases ?? []), ...Object.keys(exercise.elements)]
+    : []));
+
+// A JSX tag; attribute expressions may contain ">" and one level of nested braces
+const TAG_PATTERN = /<(\/?)([A-Za-z]\w*)(?:[^<>{}"']|"[^"]*"|'[^']*'|\{(?:[^{}]|\{[^{}]*\})*\})*?(\/?)>/g;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// ```mdx ... ``` around the whole reply or around each exercise
+function stripCodeFences(mdx: string, repairs: string[]): string {
+    const fences = mdx.match(/^[ \t]*```[\w-]*[ \t]*$/gm) ?? [];
+    if (fences.length === 0) return mdx;
+    repairs.push(`Removed ${plural(fences.length, 'code fence')}`);
+    return mdx.replace(/^[ \t]*```[\w-]*[ \t]*\n?/gm, '');
+}
+
+/**
+ * <select> dropdowns become [answer|distractor] blanks. The option marked
+ * selected (or correct) is the answer, else the first one.
+ */
+function convertSelects(mdx: string, repairs: string[]): string {
+    let count = 0;
+    const converted = mdx.replace(/<select\b[^>]*>([\s\S]*?)<\/select>/gi, (match, body: string) => {
+        const options = Array.from(body.matchAll(/<option\b([^>]*)>([\s\S]*?)<\/option>/gi))
+            .map(([, attributes, text]) => ({ text: text.trim(), isAnswer: /\b(selected|correct)\b/i.test(attributes) }))
+            .filter(option => option.text !== '');
+        if (options.length === 0) return match;
+        const answer = options.find(option => option.isAnswer) ?? options[0];
+        count++;
+        return `[${[answer, ...options.filter(option => option !== answer)].map(option => option.text).join('|')}]`;
+    });
+    if (count > 0) repairs.push(`Converted ${plural(count, '<select>')} to [answer|option] blanks`);
+    return converted;
+}
+
+// <is|are> written with angle brackets instead of square ones. Tags are left
+// alone: they have no "|" outside quotes and expressions.
+function convertAngleBlanks(mdx: string, repairs: string[]): string {
+    let count = 0;
+    const converted = mdx.replace(/<([^<>/={}"'\n][^<>={}"'\n]*\|[^<>={}"'\n]*)>/g, (_match, body: string) => {
+        count++;
+        return `[${body.split('|').map(part => part.trim()).join('|')}]`;
+    });
+    if (count > 0) repairs.push(`Converted ${plural(count, '<a|b> blank')} to [a|b]`);
+    return converted;
+}
+
+/**
+ * Put the tags of container components on their own lines, indented by depth
+ * like the examples in SYSTEM_PROMPT. Exercises that follow each other on one
+ * line are separated by an empty line.
+ */
+function splitOneLineComponents(mdx: string, repairs: string[]): string {
+    let count = 0;
+    const lines = mdx.split('\n').flatMap(line => {
+        const tags = Array.from(line.matchAll(TAG_PATTERN)).filter(tag => BLOCK_TAGS.has(tag[2]));
+        const trimmed = line.trim();
+        // A tag alone on its line is fine, <Option>Paris</Option> is split like the rest
+        const isAlone = tags.length === 1 && tags[0][0] === trimmed;
+        if (tags.length === 0 || isAlone) return [line];
+        count++;
+
+        const indent = line.match(/^\s*/)![0];
+        const pieces: string[] = [];
+        let depth = 0;
+        let position = 0;
+        const pushText = (text: string) => {
+            if (text.trim()) pieces.push(`${indent}${'  '.repeat(depth)}${text.trim()}`);
+        };
+        tags.forEach(tag => {
+            const [source, closing, , selfClosing] = tag;
+            pushText(line.slice(position, tag.index));
+            if (closing) depth = Math.max(0, depth - 1);
+            pieces.push(`${indent}${'  '.repeat(depth)}${source}`);
+            if (!closing && !selfClosing) depth++;
+            // Two newlines between top-level exercises
+            if (closing && depth === 0 && line.slice(tag.index + source.length).trim()) pieces.push('');
+            position = tag.index + source.length;
+        });
+        pushText(line.slice(position));
+        return pieces;
+    });
+    if (count > 0) repairs.push(`Put ${plural(count, 'one-line component')} on separate lines`);
+    return lines.join('\n');
+}
+
+/**
+ * Clean up MDX written by a model before it is offered for insertion, and check
+ * it the way lint-content checks lessons. Only a result with `ok` set should be
+ * inserted; `repairs` lists what was changed.
+ */
+export function repairGeneratedMdx(output: string): MdxRepairResult {
+    const repairs: string[] = [];
+    let mdx = output.replace(/\r\n/g, '\n');
+    mdx = stripCodeFences(mdx, repairs);
+    mdx = convertSelects(mdx, repairs);
+    mdx = convertAngleBlanks(mdx, repairs);
+    mdx = splitOneLineComponents(mdx, repairs);
+    mdx = `${mdx.replace(/\n{3,}/g, '\n\n').trim()}\n`;
+
+    const diagnostics = lintMdx(mdx).filter(diagnostic => diagnostic.severity === 'error');
+    let exerciseCount = 0;
+    if (!diagnostics.some(diagnostic => diagnostic.rule === 'mdx-syntax')) {
+        exerciseCount = flattenExercises(parseExercises(mdx)).length;
+    }
+    if (diagnostics.length === 0 && exerciseCount === 0) {
+        diagnostics.push({ rule: 'no-exercises', severity: 'error', message: 'The reply contains no exercises', line: 1, column: 1 });
+    }
+
+    return { mdx, repairs, diagnostics, exerciseCount, ok: diagnostics.length === 0 };
+}
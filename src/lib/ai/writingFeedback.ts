@@ -0,0 +1,143 @@
+import { WRITING_FEEDBACK_PROMPT, WRITING_FEEDBACK_REQUEST } from '../../constants/aiPrompts';
+import { generateText } from './aiClient';
+import { fillTemplate, languageName } from './promptTemplate';
+
+export const ERROR_CATEGORIES = ['case', 'word-order', 'connectors', 'verb', 'spelling', 'vocabulary', 'other'] as const;
+export type ErrorCategory = typeof ERROR_CATEGORIES[number];
+
+export const BANDS = ['A', 'B', 'C', 'D'] as const;
+export type Band = typeof BANDS[number];
+
+export const CRITERIA = ['content', 'communication', 'accuracy'] as const;
+export type Criterion = typeof CRITERIA[number];
+
+export interface ErrorAnnotation {
+    original: string; // As written by the learner
+    correction: string;
+    category: ErrorCategory;
+    explanation: string;
+}
+
+export interface CriterionRating {
+    criterion: Criterion;
+    band: Band;
+    comment: string;
+}
+
+export interface WritingFeedback {
+    correctedText: string;
+    annotations: ErrorAnnotation[];
+    criteria: CriterionRating[];
+    band: Band; // Estimate for the text as a whole
+    summary: string;
+}
+
+export interface WritingFeedbackRequest {
+    task: string;
+    points: string[];
+    minWords?: number;
+    maxWords?: number;
+    text: string;
+    translationLang: string; // e.g. "ru-RU", explanations are written in this language
+}
+
+// A run of the learner's text, with the annotation that covers it if any
+export interface AnnotatedSegment {
+    text: string;
+    annotation?: ErrorAnnotation;
+}
+
+const describeLength = (minWords?: number, maxWords?: number) => {
+    if (minWords !== undefined && maxWords !== undefined) return `${minWords} to ${maxWords} words`;
+    if (minWords !== undefined) return `At least ${minWords} words`;
+    if (maxWords !== undefined) return `At most ${maxWords} words`;
+    return 'Not specified';
+};
+
+const asString = (value: unknown) => typeof value === 'string' ? value : '';
+
+const oneOf = <T extends string>(values: readonly T[], value: unknown, fallback: T): T =>
+    values.includes(value as T) ? value as T : fallback;
+
+/**
+ * Read the model's reply. Models sometimes wrap the JSON in a code block or add
+ * a sentence around it, so only the outermost object is parsed. Unknown
+ * categories and bands are mapped to "other" and "C" instead of failing.
+ */
+export function parseWritingFeedback(reply: string): WritingFeedback {
+    const start = reply.indexOf('{');
+    const end = reply.lastIndexOf('}');
+    if (start < 0 || end < start) throw new Error('The AI reply contains no feedback');
+
+    let data: Record<string, unknown>;
+    try {
+        data = JSON.parse(reply.slice(start, end + 1));
+    } catch {
+        throw new Error('The AI reply is not valid JSON');
+    }
+    if (typeof data.correctedText !== 'string') throw new Error('The AI reply has no corrected text');
+
+    const annotations = (Array.isArray(data.annotations) ? data.annotations : [])
+        .filter(item => item && typeof item.original === 'string' && item.original.trim() !== '')
+        .map((item): ErrorAnnotation => ({
+            original: item.original,
+            correction: asString(item.correction),
+            category: oneOf(ERROR_CATEGORIES, item.category, 'other'),
+            explanation: asString(item.explanation)
+        }));
+
+    const criteria = (Array.isArray(data.criteria) ? data.criteria : [])
+        .filter(item => item && CRITERIA.includes(item.criterion))
+        .map((item): CriterionRating => ({
+            criterion: item.criterion,
+            band: oneOf(BANDS, item.band, 'C'),
+            comment: asString(item.comment)
+        }));
+
+    return {
+        correctedText: data.correctedText,
+        annotations,
+        criteria,
+        band: oneOf(BANDS, data.band, 'C'),
+        summary: asString(data.summary)
+    };
+}
+
+/**
+ * Split the learner's text at the annotated mistakes. Annotations are looked up
+ * in order, each after the previous one; those that can't be found in the text
+ * are returned separately so they can still be listed.
+ */
+export function annotateText(text: string, annotations: ErrorAnnotation[]): { segments: AnnotatedSegment[]; unplaced: ErrorAnnotation[] } {
+    const segments: AnnotatedSegment[] = [];
+    const unplaced: ErrorAnnotation[] = [];
+    let position = 0;
+
+    annotations.forEach(annotation => {
+        const index = text.indexOf(annotation.original, position);
+        if (index < 0) {
+            unplaced.push(annotation);
+            return;
+        }
+        if (index > position) segments.push({ text: text.slice(position, index) });
+        segments.push({ text: annotation.original, annotation });
+        position = index + annotation.original.length;
+    });
+    if (position < text.length) segments.push({ text: text.slice(position) });
+
+    return { segments, unplaced };
+}
+
+export async function requestWritingFeedback(request: WritingFeedbackRequest): Promise<WritingFeedback> {
+    const reply = await generateText({
+        system: fillTemplate(WRITING_FEEDBACK_PROMPT, { language: languageName(request.translationLang) }),
+        prompt: fillTemplate(WRITING_FEEDBACK_REQUEST, {
+            task: request.task.trim() || 'Not specified',
+            points: request.points.length > 0 ? request.points.map(point => `- ${point}`).join('\n') : 'None',
+            words: describeLength(request.minWords, request.maxWords),
+            text: request.text.trim()
+        }),
+        json: true
+    });
+    return parseWritingFeedback(reply);
+}
@@ -0,0 +1,23 @@
+import type { ExamResult } from './examScoring';
+
+// Finished mock exams, newest first. Stored per profile: pass this through storageKey() from useProfile
+export const EXAM_HISTORY_KEY = 'yazula_exam_history';
+
+const MAX_HISTORY = 50;
+
+export function loadExamHistory(key: string): ExamResult[] {
+    try {
+        const data = localStorage.getItem(key);
+        return data ? JSON.parse(data) : [];
+    } catch (error) {
+        console.error('Error loading exam history:', error);
+        return [];
+    }
+}
+
+// Prepends the result and returns the new history
+export function saveExamResult(key: string, result: ExamResult): ExamResult[] {
+    const history = [result, ...loadExamHistory(key)].slice(0, MAX_HISTORY);
+    localStorage.setItem(key, JSON.stringify(history));
+    return history;
+}
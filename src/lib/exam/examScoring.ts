@@ -0,0 +1,78 @@
+import type { ExamConfig, ExamSection } from '../../utils/contentLoader';
+import type { ExerciseScore } from '../../context/ExamContext';
+
+// telc B2 is passed with 60% of the points
+export const DEFAULT_PASS_PERCENT = 60;
+
+export interface SectionResult {
+    title: string;
+    rawScore: number; // Correct items over all exercises of the section
+    rawMaxScore: number;
+    points: number | null; // On the official scale; null if the section has no scored exercises
+    maxPoints: number;
+    passed: boolean | null;
+    secondsUsed: number;
+    timedOut: boolean;
+}
+
+export interface ExamResult {
+    examId: string;
+    examTitle: string;
+    startedAt: number;
+    finishedAt: number;
+    sections: SectionResult[];
+    points: number; // Sum over scored sections
+    maxPoints: number;
+    passed: boolean | null;
+}
+
+// telc awards whole and half points
+const roundToHalf = (points: number) => Math.round(points * 2) / 2;
+
+const passMark = (maxPoints: number, passPercent: number) => maxPoints * passPercent / 100;
+
+/**
+ * Convert the raw scores of a section's exercises to points on the official scale
+ * @param scores - Score of every exercise in the section
+ * @param passPercent - Pass mark of the exam, used unless the section sets its own
+ */
+export function scoreSection(
+    section: ExamSection,
+    scores: ExerciseScore[],
+    secondsUsed: number,
+    timedOut: boolean,
+    passPercent = DEFAULT_PASS_PERCENT
+): SectionResult {
+    const rawScore = scores.reduce((sum, score) => sum + score.score, 0);
+    const rawMaxScore = scores.reduce((sum, score) => sum + score.maxScore, 0);
+    const points = rawMaxScore > 0 ? roundToHalf(rawScore / rawMaxScore * section.maxPoints) : null;
+
+    return {
+        title: section.title,
+        rawScore,
+        rawMaxScore,
+        points,
+        maxPoints: section.maxPoints,
+        passed: points === null ? null : points >= passMark(section.maxPoints, section.passPercent ?? passPercent),
+        secondsUsed,
+        timedOut
+    };
+}
+
+// Overall result over the scored sections; unscored ones (e.g. writing without a rater) are left out
+export function scoreExam(exam: ExamConfig, sections: SectionResult[], startedAt: number): ExamResult {
+    const scored = sections.filter(section => section.points !== null);
+    const points = scored.reduce((sum, section) => sum + section.points!, 0);
+    const maxPoints = scored.reduce((sum, section) => sum + section.maxPoints, 0);
+
+    return {
+        examId: exam.id,
+        examTitle: exam.title,
+        startedAt,
+        finishedAt: Date.now(),
+        sections,
+        points,
+        maxPoints,
+        passed: scored.length > 0 ? points >= passMark(maxPoints, exam.passPercent ?? DEFAULT_PASS_PERCENT) : null
+    };
+}
@@ -0,0 +1,80 @@
+import { type ReactNode } from 'react';
+import * as runtime from 'react/jsx-runtime';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { evaluate } from '@mdx-js/mdx';
+import remarkGfm from 'remark-gfm';
+import remarkFrontmatter from 'remark-frontmatter';
+import remarkMdxFrontmatter from 'remark-mdx-frontmatter';
+import { getExerciseId } from '../../utils/exerciseContent';
+import type { MDXComponents } from 'mdx/types';
+import type { RegisteredExercise } from './exerciseDefinition';
+import { getExercise, getExerciseNames, isExerciseType } from './registry';
+import type { ManifestExercise } from './exerciseManifest';
+
+// Build-time only (see scripts/generate-exercise-manifest.js): lessons are compiled
+// with the same remark plugins as the bundle and rendered with recording stand-ins
+// for the exercises, so IDs are computed from exactly the props the reader sees.
+
+// Injected into every exercise element to report where it starts in the source
+const POSITION_PROP = '__manifestPosition';
+
+interface MdxNode {
+    type: string;
+    name?: string | null;
+    attributes?: Array<Record<string, unknown>>;
+    children?: MdxNode[];
+    position?: { start: { line: number; column: number } };
+}
+
+// Marks exercise elements with their position and collects all other component
+// names, which are rendered as plain wrappers
+function remarkExercisePositions(componentNames: Set<string>) {
+    return () => (tree: MdxNode) => {
+        const visit = (node: MdxNode) => {
+            if ((node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement') && node.name) {
+                if (isExerciseType(node.name) && node.position) {
+                    const { line, column } = node.position.start;
+                    node.attributes?.push({ type: 'mdxJsxAttribute', name: POSITION_PROP, value: `${line}:${column}` });
+                } else if (/^[A-Z]\w*$/.test(node.name)) {
+                    componentNames.add(node.name);
+                }
+            }
+            node.children?.forEach(visit);
+        };
+        visit(tree);
+    };
+}
+
+const Passthrough = ({ children }: { children?: ReactNode }) => <>{children}</>;
+
+/**
+ * List the exercises of a lesson in source order
+ * @param lessonPath - Route of the lesson, e.g. "/blok-3/urok-16"
+ * @param source - MDX source of the lesson
+ */
+export async function buildLessonManifest(lessonPath: string, source: string): Promise<ManifestExercise[]> {
+    const componentNames = new Set<string>();
+    const { default: Content } = await evaluate(source, {
+        ...(runtime as any),
+        remarkPlugins: [remarkGfm, remarkFrontmatter, remarkMdxFrontmatter, remarkExercisePositions(componentNames)]
+    });
+
+    const exercises: ManifestExercise[] = [];
+    const record = (exercise: RegisteredExercise) => ({ [POSITION_PROP]: position, children, ...props }: Record<string, unknown>) => {
+        const [line, column] = String(position).split(':').map(Number);
+        exercises.push({ type: exercise.type, id: getExerciseId(lessonPath, exercise, { ...props, children }), line, column });
+        // Render children too, exercises can be nested (e.g. inside an InteractiveMedia checkpoint)
+        return <>{children}</>;
+    };
+
+    const components: MDXComponents = {};
+    componentNames.forEach(name => {
+        components[name] = Passthrough;
+    });
+    getExerciseNames().forEach(name => {
+        components[name] = record(getExercise(name)!);
+    });
+
+    renderToStaticMarkup(<Content components={components} />);
+    return exercises.sort((a, b) => a.line - b.line || a.column - b.column);
+}
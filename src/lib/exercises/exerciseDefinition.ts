@@ -0,0 +1,63 @@
+import type { ComponentType } from 'react';
+import type { MDXComponents } from 'mdx/types';
+
+// Name an exercise is registered under and written as in MDX, e.g. "Quiz"
+export type ExerciseType = string;
+
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+
+// The subset of JSON Schema used to describe exercise props, see validateProps.ts
+export interface PropSchema {
+    $ref?: string; // Only local references, "#/$defs/Name"
+    type?: JsonType | JsonType[];
+    title?: string;
+    description?: string;
+    enum?: Array<string | number | boolean>;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    minProperties?: number;
+    items?: PropSchema;
+    properties?: Record<string, PropSchema>;
+    required?: string[];
+    additionalProperties?: boolean | PropSchema;
+    // TypeScript type for values JSON can't describe (children, callbacks).
+    // Such props are typed in the generated interfaces but not validated.
+    tsType?: string;
+}
+
+// Schemas live in src/components/exercises/schemas; `npm run generate-types`
+// turns them into the prop interfaces in generated/exerciseProps.ts
+export interface ExercisePropsSchema extends PropSchema {
+    $schema?: string;
+    type: 'object';
+    properties: Record<string, PropSchema>;
+    $defs?: Record<string, PropSchema>;
+}
+
+export interface ExerciseDefinition<P = unknown> {
+    type: ExerciseType;
+    component: ComponentType<P>;
+    aliases?: string[]; // Other names accepted in MDX, e.g. "quiz"
+    elements?: MDXComponents; // Components only used inside this exercise, e.g. Option
+    countsTowardProgress: boolean; // Included in lesson totals and completion
+    propsSchema: ExercisePropsSchema;
+    // What the content-hash ID is derived from. Changing it changes the IDs of
+    // existing exercises without an explicit `id` and loses their progress.
+    // Props come straight from MDX, so any of them may be missing.
+    getContentKey: (props: Partial<P>) => string | undefined;
+}
+
+// A definition as kept in the registry. Props come from MDX and are checked
+// against propsSchema at render time, so the registry only knows them as a record.
+export type RegisteredExercise = ExerciseDefinition<Record<string, unknown>>;
+
+/**
+ * Declare an exercise type. Built-in exercises are listed in registry.ts,
+ * course-specific ones are picked up from src/content/exercises/*.tsx
+ * when they export their definition as default.
+ */
+export function defineExercise<P>(definition: ExerciseDefinition<P>): ExerciseDefinition<P> {
+    return definition;
+}
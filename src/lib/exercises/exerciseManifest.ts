@@ -0,0 +1,51 @@
+import manifestData from '../../exerciseManifest.json';
+import type { ExerciseType } from './exerciseDefinition';
+import { getExercise } from './registry';
+import type { ExerciseProgress } from '../../utils/progressStorage';
+import { normalizePath } from '../../utils/pathUtils';
+
+// Generated by scripts/generate-exercise-manifest.js before every build
+export interface ManifestExercise {
+    type: ExerciseType;
+    id: string;
+    line: number;
+    column: number;
+}
+
+// lessonPath -> exercises in source order
+export type ExerciseManifest = Record<string, ManifestExercise[]>;
+
+const manifest = manifestData as ExerciseManifest;
+
+// Course paths may be written with or without the leading slash or .mdx extension
+function toManifestKey(lessonPath: string): string {
+    let key = normalizePath(lessonPath);
+    if (!key.startsWith('/')) key = '/' + key;
+    if (key.endsWith('.mdx')) key = key.slice(0, -4);
+    return key;
+}
+
+export function getLessonExercises(lessonPath: string): ManifestExercise[] {
+    return manifest[toManifestKey(lessonPath)] ?? [];
+}
+
+// Exercises per lesson that count toward progress
+export function getExerciseCounts(): Record<string, number> {
+    return Object.fromEntries(Object.entries(manifest).map(([lessonPath, exercises]) => [
+        lessonPath,
+        exercises.filter(exercise => getExercise(exercise.type)?.countsTowardProgress).length
+    ]));
+}
+
+/**
+ * Progress entries whose exercise no longer exists in the course, e.g. because
+ * it was edited without an explicit `id` or its lesson was removed.
+ * Returns nothing while the manifest is empty, so an ungenerated manifest never
+ * marks all progress as orphaned.
+ */
+export function findOrphanedProgress(progress: Map<string, ExerciseProgress>): ExerciseProgress[] {
+    if (Object.keys(manifest).length === 0) return [];
+
+    const knownIds = new Set(Object.values(manifest).flat().map(exercise => exercise.id));
+    return Array.from(progress.values()).filter(entry => !knownIds.has(entry.exerciseId));
+}
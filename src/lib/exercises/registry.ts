@@ -0,0 +1,106 @@
+import { createElement, type ComponentType } from 'react';
+import type { MDXComponents } from 'mdx/types';
+import type { ExerciseDefinition, RegisteredExercise } from './exerciseDefinition';
+import { validateProps } from './validateProps';
+import { ExercisePropsError } from '../../components/exercises/ExercisePropsError';
+import { quizExercise } from '../../components/exercises/Quiz';
+import { orderingExercise } from '../../components/exercises/Ordering';
+import { matchingExercise } from '../../components/exercises/Matching';
+import { fillBlanksExercise } from '../../components/exercises/FillBlanks';
+import { inlineBlanksExercise } from '../../components/exercises/InlineBlanks';
+import { groupingExercise } from '../../components/exercises/Grouping';
+import { mediaExercise } from '../../components/exercises/Media';
+import { dialogueExercise } from '../../components/exercises/Dialogue';
+import { interactiveMediaExercise } from '../../components/exercises/InteractiveMedia';
+import { audioPhraseExercise } from '../../components/exercises/AudioPhrase';
+import { speakingChallengeExercise } from '../../components/exercises/SpeakingChallenge';
+import { flashcardsExercise } from '../../components/exercises/Flashcards';
+import { imageLabelingExercise } from '../../components/exercises/ImageLabeling';
+import { sprachbausteineExercise } from '../../components/exercises/Sprachbausteine';
+import { textMatchingExercise } from '../../components/exercises/TextMatching';
+import { trueFalseExercise } from '../../components/exercises/TrueFalse';
+import { writingTaskExercise } from '../../components/exercises/WritingTask';
+
+// Forget the props type of a definition. Its component and getContentKey only
+// ever get MDX props, which getContentKey treats as partial and the component
+// only receives once they match propsSchema (see withPropsValidation).
+function register<P>(definition: ExerciseDefinition<P>): RegisteredExercise {
+    return definition as unknown as RegisteredExercise;
+}
+
+// Course-specific exercises: one file per exercise in src/content/exercises that
+// exports its defineExercise(...) as default
+const courseExercises = import.meta.glob<RegisteredExercise>('../../content/exercises/*.tsx', { eager: true, import: 'default' });
+
+export const EXERCISES: RegisteredExercise[] = [
+    register(quizExercise),
+    register(orderingExercise),
+    register(matchingExercise),
+    register(fillBlanksExercise),
+    register(inlineBlanksExercise),
+    register(groupingExercise),
+    register(mediaExercise),
+    register(dialogueExercise),
+    register(interactiveMediaExercise),
+    register(audioPhraseExercise),
+    register(speakingChallengeExercise),
+    register(flashcardsExercise),
+    register(imageLabelingExercise),
+    register(sprachbausteineExercise),
+    register(textMatchingExercise),
+    register(trueFalseExercise),
+    register(writingTaskExercise),
+    ...Object.values(courseExercises)
+];
+
+// Type names and aliases -> definition
+const exercisesByName = new Map<string, RegisteredExercise>();
+EXERCISES.forEach(exercise => {
+    [exercise.type, ...(exercise.aliases ?? [])].forEach(name => {
+        if (exercisesByName.has(name)) {
+            console.warn(`[Exercises] "${name}" is registered by both ${exercisesByName.get(name)!.type} and ${exercise.type}`);
+            return;
+        }
+        exercisesByName.set(name, exercise);
+    });
+});
+
+// Definition of the exercise written as `name` in MDX, by type or alias
+export function getExercise(name: string): RegisteredExercise | undefined {
+    return exercisesByName.get(name);
+}
+
+export function isExerciseType(name: string): boolean {
+    return exercisesByName.has(name);
+}
+
+// Every name an exercise can be written as in MDX
+export function getExerciseNames(): string[] {
+    return Array.from(exercisesByName.keys());
+}
+
+// Renders the exercise, or an error card naming the bad props if they don't match its schema
+function withPropsValidation(exercise: RegisteredExercise): ComponentType<Record<string, unknown>> {
+    const Validated = (props: Record<string, unknown>) => {
+        const errors = validateProps(exercise.propsSchema, props);
+        return errors.length > 0
+            ? createElement(ExercisePropsError, { type: exercise.type, errors })
+            : createElement(exercise.component, props);
+    };
+    Validated.displayName = `Validated(${exercise.type})`;
+    return Validated;
+}
+
+const validatedComponents = new Map(EXERCISES.map(exercise => [exercise, withPropsValidation(exercise)]));
+
+// Components to render MDX with: every exercise under its type and aliases, plus the elements used inside them
+export function getMdxComponents(): MDXComponents {
+    const components: MDXComponents = {};
+    EXERCISES.forEach(exercise => {
+        Object.assign(components, exercise.elements);
+    });
+    exercisesByName.forEach((exercise, name) => {
+        components[name] = validatedComponents.get(exercise)!;
+    });
+    return components;
+}
@@ -0,0 +1,112 @@
+import type { ExercisePropsSchema, JsonType, PropSchema } from './exerciseDefinition';
+
+export interface PropValidationError {
+    path: string; // Prop the error is about, e.g. "pairs[1].right"
+    message: string; // What is wrong with it, e.g. "must be a string"
+}
+
+function typeOf(value: unknown): JsonType | 'null' | 'undefined' | 'function' {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    const type = typeof value;
+    return type === 'bigint' || type === 'symbol' ? 'object' : type;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+    const actual = typeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+}
+
+const ARTICLES: Record<JsonType, string> = {
+    string: 'a string',
+    number: 'a number',
+    integer: 'a whole number',
+    boolean: 'true or false',
+    array: 'a list',
+    object: 'an object'
+};
+
+const describe = (value: unknown) => typeof value === 'string' ? `"${value}"` : JSON.stringify(value) ?? String(value);
+
+/**
+ * Check props against the schema of their exercise
+ * @param schema - Props schema of the exercise, see ExerciseDefinition
+ * @param props - Props as rendered or parsed from MDX
+ * @returns One error per invalid value, in schema order; empty if the props are valid.
+ * Props typed with `tsType` (children, callbacks) are not checked.
+ */
+export function validateProps(schema: ExercisePropsSchema, props: Record<string, unknown>): PropValidationError[] {
+    const errors: PropValidationError[] = [];
+
+    const resolve = (node: PropSchema): PropSchema => {
+        if (!node.$ref) return node;
+        const name = node.$ref.replace(/^#\/\$defs\//, '');
+        const target = schema.$defs?.[name];
+        if (!target) throw new Error(`Unknown schema reference ${node.$ref}`);
+        return resolve(target);
+    };
+
+    const check = (node: PropSchema, value: unknown, path: string) => {
+        node = resolve(node);
+        if (node.tsType) return;
+
+        if (node.enum) {
+            if (!node.enum.includes(value as string | number | boolean)) {
+                errors.push({ path, message: `must be one of ${node.enum.map(describe).join(', ')}, got ${describe(value)}` });
+            }
+            return;
+        }
+
+        const types = node.type === undefined ? [] : Array.isArray(node.type) ? node.type : [node.type];
+        if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+            errors.push({ path, message: `must be ${types.map(type => ARTICLES[type]).join(' or ')}, got ${describe(value)}` });
+            return;
+        }
+
+        if (typeof value === 'string' && node.pattern && !new RegExp(node.pattern).test(value)) {
+            errors.push({ path, message: `has an invalid format: ${describe(value)}` });
+        }
+        if (typeof value === 'number') {
+            if (node.minimum !== undefined && value < node.minimum) errors.push({ path, message: `must be at least ${node.minimum}` });
+            if (node.maximum !== undefined && value > node.maximum) errors.push({ path, message: `must be at most ${node.maximum}` });
+        }
+        if (Array.isArray(value)) {
+            if (node.minItems !== undefined && value.length < node.minItems) {
+                errors.push({ path, message: `needs at least ${node.minItems} ${node.minItems === 1 ? 'item' : 'items'}` });
+            }
+            if (node.items) value.forEach((item, index) => check(node.items!, item, `${path}[${index}]`));
+        } else if (typeOf(value) === 'object') {
+            checkObject(node, value as Record<string, unknown>, path);
+        }
+    };
+
+    const checkObject = (node: PropSchema, value: Record<string, unknown>, path: string) => {
+        const at = (key: string) => path ? `${path}.${key}` : key;
+        const properties = node.properties ?? {};
+
+        node.required?.forEach(key => {
+            if (value[key] === undefined && !resolve(properties[key] ?? {}).tsType) {
+                errors.push({ path: at(key), message: 'is required' });
+            }
+        });
+        if (node.minProperties !== undefined && Object.keys(value).length < node.minProperties) {
+            errors.push({ path, message: `needs at least ${node.minProperties} ${node.minProperties === 1 ? 'entry' : 'entries'}` });
+        }
+
+        Object.entries(value).forEach(([key, item]) => {
+            // MDX passes children to any element written with a closing tag
+            if (item === undefined || (!path && key === 'children' && !Object.hasOwn(properties, key))) return;
+            if (Object.hasOwn(properties, key)) {
+                check(properties[key], item, at(key));
+            } else if (node.additionalProperties === false) {
+                errors.push({ path: at(key), message: path ? 'is not a known field' : 'is not a known prop' });
+            } else if (typeof node.additionalProperties === 'object') {
+                check(node.additionalProperties, item, at(key));
+            }
+        });
+    };
+
+    checkObject(schema, props, '');
+    return errors;
+}
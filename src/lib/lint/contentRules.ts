@@ -0,0 +1,318 @@
+import yaml from 'js-yaml';
+import type { CourseItem, CourseStructure } from '../../utils/contentLoader';
+import type { ExerciseType } from '../exercises/exerciseDefinition';
+import { getExercise } from '../exercises/registry';
+import { validateProps } from '../exercises/validateProps';
+import { flattenExercises, parseExercises, type ExerciseComponent } from '../../utils/mdxParser';
+import { parseTime } from '../../utils/mediaTime';
+
+// Authoring checks shared by `npm run lint-content` and the editor. Nothing in
+// here touches the file system; callers pass sources and lookups in.
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface ContentDiagnostic {
+    rule: string;
+    severity: DiagnosticSeverity;
+    message: string;
+    line: number;
+    column: number;
+}
+
+export interface LintOptions {
+    // Duration in seconds of a media file referenced by `src`, if it can be determined
+    getMediaDuration?: (src: string) => number | undefined;
+}
+
+type ExerciseRule = (exercise: ExerciseComponent, options: LintOptions) => ContentDiagnostic[];
+
+const error = (rule: string, message: string, at: { line: number; column: number }): ContentDiagnostic => ({
+    rule,
+    severity: 'error',
+    message,
+    line: at.line,
+    column: at.column
+});
+
+// Quiz answers are 1-based Option numbers, "2" or "1,3". Their format is
+// checked by the schema, this checks they point at an existing Option.
+const quizAnswerRule: ExerciseRule = exercise => {
+    const { answer } = exercise.props;
+    if (typeof answer !== 'string') return [];
+
+    const optionCount = exercise.elements.filter(element => element.name === 'Option').length;
+    return answer.split(',').map(part => Number(part.trim())).flatMap(index => {
+        if (!Number.isInteger(index) || index <= optionCount) return [];
+        return [error('quiz-answer', `Quiz answer ${index} but the Quiz has only ${optionCount} Options`, exercise)];
+    });
+};
+
+const imageLabelingWordsRule: ExerciseRule = exercise => {
+    const { slots, words } = exercise.props;
+    if (!Array.isArray(slots) || !Array.isArray(words)) return [];
+
+    return slots
+        .filter(slot => !words.includes(slot?.answer))
+        .map(slot => error(
+            'image-labeling-words',
+            `ImageLabeling slot "${slot?.id}" expects "${slot?.answer}", which is not in words`,
+            exercise
+        ));
+};
+
+const orderingAlternativesRule: ExerciseRule = exercise => {
+    const { items, alternatives } = exercise.props;
+    if (!Array.isArray(items) || !Array.isArray(alternatives)) return [];
+
+    return alternatives.flatMap((alternative, index) => {
+        const length = Array.isArray(alternative) ? alternative.length : 0;
+        if (length === items.length) return [];
+        return [error(
+            'ordering-alternatives',
+            `Ordering alternative ${index + 1} has ${length} items, items has ${items.length}`,
+            exercise
+        )];
+    });
+};
+
+// Every gap answer must be a word of the bank, and as each word fills at most
+// one gap, no two gaps can share an answer
+const sprachbausteineWordsRule: ExerciseRule = exercise => {
+    const { words } = exercise.props;
+    if (!Array.isArray(words) || exercise.children === undefined) return [];
+
+    const diagnostics: ContentDiagnostic[] = [];
+    if (words.length > 26) {
+        diagnostics.push(error('sprachbausteine-words', `Sprachbausteine has ${words.length} words, letters only go up to z`, exercise));
+    }
+    words.forEach((word, index) => {
+        if (words.indexOf(word) !== index) {
+            diagnostics.push(error('sprachbausteine-words', `Sprachbausteine word "${word}" is in the bank twice`, exercise));
+        }
+    });
+
+    // Compared in lower case like the component does, a gap may start a sentence
+    const answers = (exercise.children.match(/\[.*?\]/g) ?? []).map(gap => gap.slice(1, -1).trim().toLowerCase());
+    const bank = words.map(word => String(word).toLowerCase());
+    answers.forEach((answer, index) => {
+        if (!bank.includes(answer)) {
+            diagnostics.push(error('sprachbausteine-words', `Sprachbausteine gap ${index + 1} expects "${answer}", which is not in words`, exercise));
+        } else if (answers.indexOf(answer) !== index) {
+            diagnostics.push(error('sprachbausteine-words', `Sprachbausteine word "${answer}" is the answer of more than one gap`, exercise));
+        }
+    });
+    if (answers.length === 0) {
+        diagnostics.push(error('sprachbausteine-words', 'Sprachbausteine text has no [answer] gaps', exercise));
+    }
+    return diagnostics;
+};
+
+// Passage answers are headline letters; a headline fits one text at most
+const textMatchingAnswersRule: ExerciseRule = exercise => {
+    const { headlines } = exercise.props;
+    if (!Array.isArray(headlines)) return [];
+
+    const diagnostics: ContentDiagnostic[] = [];
+    if (headlines.length > 26) {
+        diagnostics.push(error('text-matching-answers', `TextMatching has ${headlines.length} headlines, letters only go up to z`, exercise));
+    }
+
+    const passages = exercise.elements.filter(element => element.name === 'Passage' || element.name === 'passage');
+    const letters = passages.map(passage => String(passage.props.answer ?? '').trim().toLowerCase());
+    passages.forEach((passage, index) => {
+        const headline = letters[index].length === 1 ? letters[index].charCodeAt(0) - 97 : -1;
+        if (headline < 0 || headline >= headlines.length) {
+            diagnostics.push(error('text-matching-answers', `Passage answer "${passage.props.answer ?? ''}" is not the letter of a headline (a-${String.fromCharCode(96 + Math.min(headlines.length, 26))})`, passage));
+        } else if (letters.indexOf(letters[index]) !== index) {
+            diagnostics.push(error('text-matching-answers', `Headline ${letters[index]} is the answer of more than one Passage`, passage));
+        }
+    });
+    if (passages.length === 0) {
+        diagnostics.push(error('text-matching-answers', 'TextMatching has no Passage elements', exercise));
+    }
+    return diagnostics;
+};
+
+// "not-given" answers only make sense when the third option is offered, and
+// custom labels must name every option that is shown
+const trueFalseAnswersRule: ExerciseRule = exercise => {
+    const { statements, notGiven, labels } = exercise.props;
+    if (!Array.isArray(statements)) return [];
+
+    const diagnostics: ContentDiagnostic[] = [];
+    statements.forEach((statement, index) => {
+        if (statement?.answer === 'not-given' && notGiven !== true) {
+            diagnostics.push(error('true-false-answers', `TrueFalse statement ${index + 1} is "not-given", which needs notGiven`, exercise));
+        }
+    });
+    if (notGiven === true && Array.isArray(labels) && labels.length < 3) {
+        diagnostics.push(error('true-false-answers', `TrueFalse has notGiven but only ${labels.length} labels`, exercise));
+    }
+    return diagnostics;
+};
+
+const writingTaskWordsRule: ExerciseRule = exercise => {
+    const { minWords, maxWords } = exercise.props;
+    if (typeof minWords !== 'number' || typeof maxWords !== 'number' || minWords <= maxWords) return [];
+    return [error('writing-task-words', `WritingTask minWords (${minWords}) is more than maxWords (${maxWords})`, exercise)];
+};
+
+// Checkpoints are shown in time order, so the source should follow it too
+const checkpointTimesRule: ExerciseRule = (exercise, options) => {
+    const diagnostics: ContentDiagnostic[] = [];
+    const duration = typeof exercise.props.src === 'string' ? options.getMediaDuration?.(exercise.props.src) : undefined;
+    let previous = -Infinity;
+
+    exercise.elements.filter(element => element.name === 'Checkpoint').forEach(checkpoint => {
+        const { time } = checkpoint.props;
+        const seconds = time === undefined ? NaN : parseTime(time);
+        if (!Number.isFinite(seconds)) {
+            diagnostics.push(error('checkpoint-time', `Checkpoint time "${time ?? ''}" is not a valid time`, checkpoint));
+            return;
+        }
+        if (seconds < previous) {
+            diagnostics.push(error('checkpoint-time', `Checkpoint at ${time} comes before the previous checkpoint`, checkpoint));
+        }
+        if (duration !== undefined && seconds > duration) {
+            diagnostics.push(error('checkpoint-time', `Checkpoint at ${time} is past the end of the media (${Math.round(duration)}s)`, checkpoint));
+        }
+        previous = Math.max(previous, seconds);
+    });
+
+    return diagnostics;
+};
+
+// Props that don't match the exercise's JSON Schema. Props that failed to parse
+// are left to prop-syntax.
+const propSchemaRule: ExerciseRule = exercise => {
+    const definition = getExercise(exercise.type);
+    if (!definition) return [];
+
+    return validateProps(definition.propsSchema, exercise.props)
+        .filter(propError => !Object.hasOwn(exercise.propErrors, propError.path.split(/[.[]/)[0]))
+        .map(propError => error('prop-schema', `${exercise.type} ${propError.path} ${propError.message}`, exercise));
+};
+
+export const EXERCISE_RULES: Partial<Record<ExerciseType, ExerciseRule[]>> = {
+    Quiz: [quizAnswerRule],
+    ImageLabeling: [imageLabelingWordsRule],
+    Ordering: [orderingAlternativesRule],
+    InteractiveMedia: [checkpointTimesRule],
+    Sprachbausteine: [sprachbausteineWordsRule],
+    TextMatching: [textMatchingAnswersRule],
+    TrueFalse: [trueFalseAnswersRule],
+    WritingTask: [writingTaskWordsRule]
+};
+
+/**
+ * Check every exercise of a lesson
+ * @param source - MDX source of the lesson
+ * @returns Diagnostics sorted by position; an MDX syntax error is reported as a single diagnostic
+ */
+export function lintMdx(source: string, options: LintOptions = {}): ContentDiagnostic[] {
+    let exercises: ExerciseComponent[];
+    try {
+        exercises = flattenExercises(parseExercises(source));
+    } catch (e: any) {
+        // Some parse errors only carry their position in the text, e.g. "... (2:1-2:9)"
+        const reason: string = e.reason ?? e.message;
+        const place = reason.match(/ \((\d+):(\d+)(?:-\d+:\d+)?\)$/);
+        return [error('mdx-syntax', place ? reason.slice(0, place.index) : reason, {
+            line: e.line ?? (place ? Number(place[1]) : 1),
+            column: e.column ?? (place ? Number(place[2]) : 1)
+        })];
+    }
+
+    const diagnostics = exercises.flatMap(exercise => [
+        ...[exercise, ...exercise.elements].flatMap(({ propErrors }) => Object.entries(propErrors).map(([name, propError]) =>
+            error('prop-syntax', `Prop ${name}: ${propError.reason}`, propError)
+        )),
+        ...[propSchemaRule, ...(EXERCISE_RULES[exercise.type] ?? [])].flatMap(rule => rule(exercise, options))
+    ]);
+
+    return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Check the course structure
+ * @param source - Source of course.yaml
+ * @param lessonExists - Whether a lesson file exists for a course path
+ */
+export function lintCourse(source: string, lessonExists: (path: string) => boolean): ContentDiagnostic[] {
+    let course: CourseStructure;
+    try {
+        course = yaml.load(source) as CourseStructure;
+    } catch (e: any) {
+        const mark = e.mark ?? {};
+        return [error('course-syntax', e.reason ?? e.message, { line: (mark.line ?? 0) + 1, column: (mark.column ?? 0) + 1 })];
+    }
+
+    if (!course || !Array.isArray(course.structure)) {
+        return [error('course-structure', 'course.yaml needs a "structure" list', { line: 1, column: 1 })];
+    }
+
+    // js-yaml keeps no positions, so items are located by their path in the source
+    // (the n-th item with a path is found at the n-th occurrence of that path)
+    const lines = source.split('\n');
+    const occurrences = new Map<string, number>();
+    const findLine = (text: string) => {
+        const nth = occurrences.get(text) ?? 0;
+        occurrences.set(text, nth + 1);
+        return lines.findIndex((line, index) => line.includes(text) &&
+            lines.slice(0, index).filter(previous => previous.includes(text)).length === nth);
+    };
+    const locateText = (text: string) => {
+        const line = Math.max(findLine(text), 0) + 1;
+        return { line, column: (lines[line - 1]?.search(/\S/) ?? 0) + 1 };
+    };
+    const locate = (item: CourseItem) => locateText(item.path ? `path: ${item.path}` : `title: ${item.title}`);
+
+    const diagnostics: ContentDiagnostic[] = [];
+    const seen = new Set<string>();
+    const visit = (items: CourseItem[]) => items.forEach(item => {
+        const at = locate(item);
+        if (!item.title) {
+            diagnostics.push(error('course-structure', 'Course item without a title', at));
+        }
+        if (item.path) {
+            if (seen.has(item.path)) {
+                diagnostics.push(error('course-structure', `Lesson ${item.path} is listed more than once`, at));
+            } else if (!lessonExists(item.path)) {
+                diagnostics.push(error('course-structure', `No lesson file for ${item.path}`, at));
+            }
+            seen.add(item.path);
+        } else if (!item.items?.length) {
+            diagnostics.push(error('course-structure', `"${item.title}" has neither a path nor items`, at));
+        }
+        if (item.items) visit(item.items);
+    });
+    visit(course.structure);
+
+    const examIds = new Set<string>();
+    (course.exams ?? []).forEach(exam => {
+        const at = exam.id ? locateText(`id: ${exam.id}`) : locate(exam);
+        if (!exam.id || !exam.title) {
+            diagnostics.push(error('exam-structure', 'Exam needs an id and a title', at));
+        } else if (examIds.has(exam.id)) {
+            diagnostics.push(error('exam-structure', `Exam id ${exam.id} is used more than once`, at));
+        }
+        examIds.add(exam.id);
+        if (!exam.sections?.length) {
+            diagnostics.push(error('exam-structure', `Exam "${exam.title}" has no sections`, at));
+        }
+        exam.sections?.forEach(section => {
+            const sectionAt = locate(section);
+            if (!section.title) {
+                diagnostics.push(error('exam-structure', 'Exam section without a title', sectionAt));
+            }
+            if (!section.path || !lessonExists(section.path)) {
+                diagnostics.push(error('exam-structure', `No content file for exam section "${section.title}"`, sectionAt));
+            }
+            if (!(section.minutes > 0) || !(section.maxPoints > 0)) {
+                diagnostics.push(error('exam-structure', `Exam section "${section.title}" needs positive minutes and maxPoints`, sectionAt));
+            }
+        });
+    });
+
+    return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
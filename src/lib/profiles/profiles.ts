@@ -0,0 +1,95 @@
+// Learner profiles sharing one device. Each profile gets its own namespaced
+// progress and settings; the default profile keeps the original global keys so
+// data saved before profiles existed stays where it is.
+
+export interface LearnerProfile {
+    id: string;
+    name: string;
+    pinHash?: string; // SHA-256 of the PIN salted with the profile id
+    createdAt: number;
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const PROFILES_KEY = 'yazula_profiles';
+const ACTIVE_PROFILE_KEY = 'yazula_active_profile';
+const UNLOCKED_PROFILE_KEY = 'yazula_unlocked_profile'; // sessionStorage
+
+const defaultProfile = (): LearnerProfile => ({
+    id: DEFAULT_PROFILE_ID,
+    name: 'Default',
+    createdAt: 0
+});
+
+// Namespace a storage key (localStorage key, database or channel name) for a profile
+export function profileStorageKey(profileId: string, baseKey: string): string {
+    return profileId === DEFAULT_PROFILE_ID ? baseKey : `${baseKey}:${profileId}`;
+}
+
+export function loadProfiles(): LearnerProfile[] {
+    try {
+        const data = localStorage.getItem(PROFILES_KEY);
+        const profiles: LearnerProfile[] = data ? JSON.parse(data) : [];
+        return profiles.some(p => p.id === DEFAULT_PROFILE_ID) ? profiles : [defaultProfile(), ...profiles];
+    } catch (error) {
+        console.error('Error loading profiles:', error);
+        return [defaultProfile()];
+    }
+}
+
+export function saveProfiles(profiles: LearnerProfile[]): void {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+// A PIN-protected profile is only restored on reload if it was unlocked in this
+// browser session; otherwise the app starts in the default profile.
+export function loadActiveProfileId(profiles: LearnerProfile[]): string {
+    const savedId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+    const profile = profiles.find(p => p.id === savedId);
+    if (!profile) return DEFAULT_PROFILE_ID;
+    if (profile.pinHash && sessionStorage.getItem(UNLOCKED_PROFILE_KEY) !== profile.id) {
+        return DEFAULT_PROFILE_ID;
+    }
+    return profile.id;
+}
+
+export function saveActiveProfileId(profileId: string): void {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+    sessionStorage.setItem(UNLOCKED_PROFILE_KEY, profileId);
+}
+
+export function createProfileId(): string {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+        return crypto.randomUUID().slice(0, 8);
+    }
+    return Date.now().toString(36);
+}
+
+// crypto.subtle only exists in secure contexts, so PINs can't be set or checked
+// when the app is opened over plain HTTP, e.g. from a LAN address
+export function arePinsAvailable(): boolean {
+    return typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+}
+
+export async function hashPin(profileId: string, pin: string): Promise<string> {
+    if (!arePinsAvailable()) throw new Error('PINs need HTTPS. Open the app over https:// or on localhost.');
+    const data = new TextEncoder().encode(`${profileId}:${pin}`);
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+export async function verifyPin(profile: LearnerProfile, pin: string): Promise<boolean> {
+    if (!profile.pinHash) return true;
+    return (await hashPin(profile.id, pin)) === profile.pinHash;
+}
+
+// Remove every localStorage key namespaced to the profile
+export function removeProfileLocalData(profileId: string): void {
+    if (profileId === DEFAULT_PROFILE_ID) return;
+    const suffix = `:${profileId}`;
+    Object.keys(localStorage)
+        .filter(key => key.endsWith(suffix))
+        .forEach(key => localStorage.removeItem(key));
+}
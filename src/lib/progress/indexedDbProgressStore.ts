@@ -0,0 +1,80 @@
+import type { ExerciseProgress } from '../../utils/progressStorage';
+import type { ProgressStore } from './progressStore';
+
+export const PROGRESS_DB_NAME = 'yazula';
+const DB_VERSION = 1;
+const STORE_NAME = 'progress';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+// One record per exercise, so saving an attempt only rewrites that exercise
+export class IndexedDbProgressStore implements ProgressStore {
+    private db: IDBDatabase;
+
+    constructor(db: IDBDatabase) {
+        this.db = db;
+        // Let deleteDatabase (or a schema upgrade in another tab) proceed
+        this.db.onversionchange = () => this.db.close();
+    }
+
+    static async open(name: string = PROGRESS_DB_NAME): Promise<IndexedDbProgressStore> {
+        const request = indexedDB.open(name, DB_VERSION);
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'exerciseId' });
+            }
+        };
+        return new IndexedDbProgressStore(await requestToPromise(request));
+    }
+
+    async loadAll(): Promise<Map<string, ExerciseProgress>> {
+        const transaction = this.db.transaction(STORE_NAME, 'readonly');
+        const entries = await requestToPromise<ExerciseProgress[]>(transaction.objectStore(STORE_NAME).getAll());
+        return new Map(entries.map(entry => [entry.exerciseId, entry]));
+    }
+
+    async save(entries: ExerciseProgress[]): Promise<void> {
+        const transaction = this.db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        entries.forEach(entry => store.put(entry));
+        await transactionDone(transaction);
+    }
+
+    async remove(exerciseIds: string[]): Promise<void> {
+        const transaction = this.db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        exerciseIds.forEach(id => store.delete(id));
+        await transactionDone(transaction);
+    }
+
+    async replaceAll(progress: Map<string, ExerciseProgress>): Promise<void> {
+        const transaction = this.db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        store.clear();
+        progress.forEach(entry => store.put(entry));
+        await transactionDone(transaction);
+    }
+
+    async clear(): Promise<void> {
+        const transaction = this.db.transaction(STORE_NAME, 'readwrite');
+        transaction.objectStore(STORE_NAME).clear();
+        await transactionDone(transaction);
+    }
+
+    close(): void {
+        this.db.close();
+    }
+}
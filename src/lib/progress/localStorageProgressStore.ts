@@ -0,0 +1,54 @@
+import type { ExerciseProgress } from '../../utils/progressStorage';
+import type { ProgressStore } from './progressStore';
+
+export const LEGACY_PROGRESS_KEY = 'yazula_progress';
+
+// Keeps all entries in a single JSON object under one localStorage key
+export class LocalStorageProgressStore implements ProgressStore {
+    private key: string;
+
+    constructor(key: string) {
+        this.key = key;
+    }
+
+    private read(): Map<string, ExerciseProgress> {
+        try {
+            const data = localStorage.getItem(this.key);
+            if (!data) return new Map();
+            return new Map(Object.entries(JSON.parse(data)));
+        } catch (error) {
+            console.error('Error loading progress:', error);
+            return new Map();
+        }
+    }
+
+    private write(progress: Map<string, ExerciseProgress>): void {
+        localStorage.setItem(this.key, JSON.stringify(Object.fromEntries(progress)));
+    }
+
+    async loadAll(): Promise<Map<string, ExerciseProgress>> {
+        return this.read();
+    }
+
+    async save(entries: ExerciseProgress[]): Promise<void> {
+        const progress = this.read();
+        entries.forEach(entry => progress.set(entry.exerciseId, entry));
+        this.write(progress);
+    }
+
+    async remove(exerciseIds: string[]): Promise<void> {
+        const progress = this.read();
+        exerciseIds.forEach(id => progress.delete(id));
+        this.write(progress);
+    }
+
+    async replaceAll(progress: Map<string, ExerciseProgress>): Promise<void> {
+        this.write(progress);
+    }
+
+    async clear(): Promise<void> {
+        localStorage.removeItem(this.key);
+    }
+
+    close(): void {}
+}
@@ -0,0 +1,58 @@
+import type { ExerciseProgress } from '../../utils/progressStorage';
+
+// Per-lesson counters derived from the progress entries
+export interface LessonStats {
+    completed: number;
+    attemptCount: number;
+    correctSubmissions: number;
+    wrongSubmissions: number;
+}
+
+export type ProgressIndex = ReadonlyMap<string, LessonStats>;
+
+const emptyStats = (): LessonStats => ({
+    completed: 0,
+    attemptCount: 0,
+    correctSubmissions: 0,
+    wrongSubmissions: 0
+});
+
+// Add (sign = 1) or remove (sign = -1) one entry's contribution
+function applyEntry(stats: LessonStats, entry: ExerciseProgress, sign: 1 | -1): LessonStats {
+    const next = { ...stats };
+    if (entry.completed) next.completed += sign;
+    entry.attempts?.forEach(attempt => {
+        next.attemptCount += sign;
+        next.wrongSubmissions += sign * attempt.wrongSubmissions;
+        if (attempt.completed) next.correctSubmissions += sign;
+    });
+    return next;
+}
+
+export function buildProgressIndex(progress: Map<string, ExerciseProgress>): ProgressIndex {
+    const index = new Map<string, LessonStats>();
+    progress.forEach(entry => {
+        index.set(entry.lessonPath, applyEntry(index.get(entry.lessonPath) ?? emptyStats(), entry, 1));
+    });
+    return index;
+}
+
+/**
+ * Return a new index with one entry replaced, touching only the affected lessons.
+ */
+export function updateProgressIndex(
+    index: ProgressIndex,
+    previous: ExerciseProgress | undefined,
+    next: ExerciseProgress
+): ProgressIndex {
+    const updated = new Map(index);
+    if (previous) {
+        updated.set(previous.lessonPath, applyEntry(updated.get(previous.lessonPath) ?? emptyStats(), previous, -1));
+    }
+    updated.set(next.lessonPath, applyEntry(updated.get(next.lessonPath) ?? emptyStats(), next, 1));
+    return updated;
+}
+
+export function getLessonStats(index: ProgressIndex, lessonPath: string): LessonStats {
+    return index.get(lessonPath) ?? emptyStats();
+}
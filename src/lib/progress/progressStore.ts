@@ -0,0 +1,76 @@
+import type { ExerciseProgress } from '../../utils/progressStorage';
+import { mergeProgressEntry } from '../../utils/progressTransfer';
+import { LocalStorageProgressStore, LEGACY_PROGRESS_KEY } from './localStorageProgressStore';
+import { IndexedDbProgressStore, PROGRESS_DB_NAME } from './indexedDbProgressStore';
+import { DEFAULT_PROFILE_ID, profileStorageKey } from '../profiles/profiles';
+
+export interface ProgressStore {
+    loadAll(): Promise<Map<string, ExerciseProgress>>;
+    save(entries: ExerciseProgress[]): Promise<void>;
+    remove(exerciseIds: string[]): Promise<void>;
+    replaceAll(progress: Map<string, ExerciseProgress>): Promise<void>;
+    clear(): Promise<void>;
+    close(): void;
+}
+
+export type ProgressBackend = 'indexedDB' | 'localStorage';
+
+// Selected with VITE_PROGRESS_STORE, IndexedDB unless configured otherwise
+export function getConfiguredBackend(): ProgressBackend {
+    const configured = import.meta.env.VITE_PROGRESS_STORE;
+    if (configured === 'localStorage') return 'localStorage';
+    if (typeof indexedDB === 'undefined') return 'localStorage';
+    return 'indexedDB';
+}
+
+/**
+ * Copy progress saved under the legacy localStorage key into the given store
+ * and remove the key, so the migration only ever runs once.
+ */
+export async function migrateLegacyProgress(store: ProgressStore): Promise<void> {
+    const legacy = new LocalStorageProgressStore(LEGACY_PROGRESS_KEY);
+    const legacyProgress = await legacy.loadAll();
+    if (legacyProgress.size === 0) return;
+
+    const current = await store.loadAll();
+    const entries = Array.from(legacyProgress.values()).map(entry => {
+        const existing = current.get(entry.exerciseId);
+        return existing ? mergeProgressEntry(existing, entry) : entry;
+    });
+
+    await store.save(entries);
+    await legacy.clear();
+    console.info(`[ProgressStore] Migrated ${entries.length} entries from localStorage`);
+}
+
+/**
+ * Open the configured progress backend for a learner profile. Falls back to
+ * localStorage when IndexedDB cannot be opened (e.g. some private browsing modes).
+ */
+export async function openProgressStore(profileId: string = DEFAULT_PROFILE_ID): Promise<ProgressStore> {
+    const localStore = new LocalStorageProgressStore(profileStorageKey(profileId, LEGACY_PROGRESS_KEY));
+    if (getConfiguredBackend() === 'localStorage') return localStore;
+
+    try {
+        const store = await IndexedDbProgressStore.open(profileStorageKey(profileId, PROGRESS_DB_NAME));
+        // Only the default profile can have data from before the IndexedDB store
+        if (profileId === DEFAULT_PROFILE_ID) await migrateLegacyProgress(store);
+        return store;
+    } catch (error) {
+        console.error('[ProgressStore] IndexedDB unavailable, using localStorage:', error);
+        return localStore;
+    }
+}
+
+// Remove all progress of a profile from every backend
+export async function deleteProgressStore(profileId: string): Promise<void> {
+    await new LocalStorageProgressStore(profileStorageKey(profileId, LEGACY_PROGRESS_KEY)).clear();
+    if (typeof indexedDB === 'undefined') return;
+    await new Promise<void>((resolve, reject) => {
+        const request = indexedDB.deleteDatabase(profileStorageKey(profileId, PROGRESS_DB_NAME));
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+        // Open connections close on versionchange, so only a tab that ignores it can block us
+        request.onblocked = () => reject(new Error(`Progress of profile "${profileId}" is still open in another tab`));
+    });
+}
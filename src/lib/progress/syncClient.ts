@@ -0,0 +1,222 @@
+import { getModifiedAt, type ExerciseProgress } from '../../utils/progressStorage';
+
+// Client for the progress sync protocol served by scripts/sync-server.js:
+//   GET  {serverUrl}/sync/{learnerId}?since={cursor} -> { cursor, entries }
+//   POST {serverUrl}/sync/{learnerId} { entries }    -> { cursor, applied }
+// Both sides resolve conflicts per exercise with last-write-wins on modifiedAt.
+// Resetting progress is local only; there are no deletes in the protocol.
+
+export interface SyncConfig {
+    serverUrl: string;
+    learnerId: string;
+}
+
+export type SyncStatus = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncState {
+    status: SyncStatus;
+    pending: number; // Local changes waiting to be pushed
+    lastSyncedAt?: number;
+    error?: string;
+}
+
+// Base keys, namespaced per profile by the caller
+export const SYNC_CONFIG_KEY = 'yazula_sync';
+const SYNC_QUEUE_KEY = 'yazula_sync_queue';
+const SYNC_CURSOR_KEY = 'yazula_sync_cursor';
+
+const FLUSH_DELAY_MS = 2000;
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export function loadSyncConfig(key: string): SyncConfig | null {
+    try {
+        const data = localStorage.getItem(key);
+        return data ? JSON.parse(data) : null;
+    } catch {
+        return null;
+    }
+}
+
+export function saveSyncConfig(key: string, config: SyncConfig | null): void {
+    if (config) localStorage.setItem(key, JSON.stringify(config));
+    else localStorage.removeItem(key);
+}
+
+// Forget the queue and cursor, e.g. when pointing at another server or learner
+export function resetSyncState(storageKey: (baseKey: string) => string): void {
+    localStorage.removeItem(storageKey(SYNC_QUEUE_KEY));
+    localStorage.removeItem(storageKey(SYNC_CURSOR_KEY));
+}
+
+export function generateLearnerId(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(9));
+    return Array.from(bytes, b => b.toString(36).padStart(2, '0')).join('').slice(0, 12);
+}
+
+// Last-write-wins on modifiedAt; ties keep the local entry
+export function isRemoteNewer(local: ExerciseProgress | undefined, remote: ExerciseProgress): boolean {
+    return !local || getModifiedAt(remote) > getModifiedAt(local);
+}
+
+interface SyncClientOptions {
+    config: SyncConfig;
+    storageKey: (baseKey: string) => string;
+    getLocalEntries: () => ExerciseProgress[];
+    onRemoteEntries: (entries: ExerciseProgress[]) => void;
+    onStateChange: (state: SyncState) => void;
+}
+
+export class ProgressSyncClient {
+    private options: SyncClientOptions;
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+    private pollTimer: ReturnType<typeof setInterval> | null = null;
+    private isSyncing = false;
+    private syncAgain = false;
+    private lastSyncedAt?: number;
+    // After stop() nothing may reach the callbacks, they belong to the previous profile
+    private stopped = false;
+    private abortController = new AbortController();
+
+    constructor(options: SyncClientOptions) {
+        this.options = options;
+    }
+
+    start(): void {
+        // First sync with this server: everything recorded so far has to be pushed
+        if (this.readCursor() === 0) this.enqueue(this.options.getLocalEntries(), false);
+        window.addEventListener('online', this.handleOnline);
+        this.pollTimer = setInterval(() => this.sync(), POLL_INTERVAL_MS);
+        this.sync();
+    }
+
+    stop(): void {
+        this.stopped = true;
+        this.abortController.abort();
+        window.removeEventListener('online', this.handleOnline);
+        if (this.pollTimer) clearInterval(this.pollTimer);
+        if (this.flushTimer) clearTimeout(this.flushTimer);
+        this.pollTimer = null;
+        this.flushTimer = null;
+    }
+
+    // Queue local changes; the queue survives reloads until the server has them
+    enqueue(entries: ExerciseProgress[], scheduleFlush: boolean = true): void {
+        if (entries.length === 0) return;
+        const queue = this.readQueue();
+        entries.forEach(entry => queue.set(entry.exerciseId, entry));
+        this.writeQueue(queue);
+        this.report(navigator.onLine ? 'idle' : 'offline');
+
+        if (scheduleFlush) {
+            if (this.flushTimer) clearTimeout(this.flushTimer);
+            this.flushTimer = setTimeout(() => this.sync(), FLUSH_DELAY_MS);
+        }
+    }
+
+    async sync(): Promise<void> {
+        if (this.stopped) return;
+        if (this.isSyncing) {
+            this.syncAgain = true;
+            return;
+        }
+        if (!navigator.onLine) {
+            this.report('offline');
+            return;
+        }
+
+        this.isSyncing = true;
+        this.report('syncing');
+        try {
+            await this.push();
+            await this.pull();
+            this.lastSyncedAt = Date.now();
+            this.report('idle');
+        } catch (error) {
+            // fetch rejects with a TypeError when the server can't be reached
+            if (error instanceof TypeError) this.report('offline');
+            else this.report('error', error instanceof Error ? error.message : String(error));
+        } finally {
+            this.isSyncing = false;
+            if (this.syncAgain) {
+                this.syncAgain = false;
+                this.sync();
+            }
+        }
+    }
+
+    private handleOnline = () => {
+        this.sync();
+    };
+
+    private async push(): Promise<void> {
+        const queue = this.readQueue();
+        if (queue.size === 0) return;
+
+        const pushed = Array.from(queue.values());
+        await this.request('POST', '', { entries: pushed });
+
+        // Keep entries that changed again while the request was in flight
+        const current = this.readQueue();
+        pushed.forEach(entry => {
+            const queued = current.get(entry.exerciseId);
+            if (queued && getModifiedAt(queued) === getModifiedAt(entry)) {
+                current.delete(entry.exerciseId);
+            }
+        });
+        this.writeQueue(current);
+    }
+
+    private async pull(): Promise<void> {
+        const response = await this.request<{ cursor: number; entries: ExerciseProgress[] }>(
+            'GET',
+            `?since=${this.readCursor()}`
+        );
+        if (this.stopped) return;
+        if (response.entries.length > 0) this.options.onRemoteEntries(response.entries);
+        localStorage.setItem(this.options.storageKey(SYNC_CURSOR_KEY), String(response.cursor));
+    }
+
+    private async request<T>(method: 'GET' | 'POST', query: string, body?: unknown): Promise<T> {
+        const { serverUrl, learnerId } = this.options.config;
+        const url = `${serverUrl.replace(/\/+$/, '')}/sync/${encodeURIComponent(learnerId)}${query}`;
+        const response = await fetch(url, {
+            method,
+            headers: body ? { 'Content-Type': 'application/json' } : undefined,
+            body: body ? JSON.stringify(body) : undefined,
+            signal: this.abortController.signal
+        });
+        if (!response.ok) {
+            throw new Error(`Sync server responded with ${response.status} ${response.statusText}`);
+        }
+        return response.json();
+    }
+
+    private readCursor(): number {
+        return Number(localStorage.getItem(this.options.storageKey(SYNC_CURSOR_KEY))) || 0;
+    }
+
+    private readQueue(): Map<string, ExerciseProgress> {
+        try {
+            const data = localStorage.getItem(this.options.storageKey(SYNC_QUEUE_KEY));
+            return new Map(data ? Object.entries(JSON.parse(data)) : []);
+        } catch {
+            return new Map();
+        }
+    }
+
+    private writeQueue(queue: Map<string, ExerciseProgress>): void {
+        const key = this.options.storageKey(SYNC_QUEUE_KEY);
+        if (queue.size === 0) localStorage.removeItem(key);
+        else localStorage.setItem(key, JSON.stringify(Object.fromEntries(queue)));
+    }
+
+    private report(status: SyncStatus, error?: string): void {
+        if (this.stopped) return;
+        this.options.onStateChange({
+            status,
+            pending: this.readQueue().size,
+            lastSyncedAt: this.lastSyncedAt,
+            error
+        });
+    }
+}
@@ -7,11 +7,29 @@ export interface CourseItem {
     items?: CourseItem[];
 }
 
+// One timed part of a mock exam, e.g. Leseverstehen
+export interface ExamSection {
+    title: string;
+    path: string; // MDX page with the exercises of the section, like a lesson path
+    minutes: number; // Time limit
+    maxPoints: number; // Points of the section on the official scale (telc B2: Leseverstehen 75)
+    passPercent?: number; // Share of maxPoints needed to pass, defaults to the exam's
+}
+
+export interface ExamConfig {
+    id: string; // Used in the URL: /exams/<id>
+    title: string;
+    description?: string;
+    passPercent?: number; // Defaults to 60, the telc pass mark
+    sections: ExamSection[];
+}
+
 export interface CourseStructure {
     title: string;
     description?: string; // Adding description as it might be useful too
     googleAnalyticsId?: string;
     structure: CourseItem[];
+    exams?: ExamConfig[];
 }
 
 export async function loadCourseStructure(fs?: IFileSystem): Promise<CourseStructure> {
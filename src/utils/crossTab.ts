@@ -0,0 +1,31 @@
+// Messaging between tabs and windows of the same origin
+
+export interface CrossTabChannel<T> {
+    post: (message: T) => void;
+    close: () => void;
+}
+
+/**
+ * Open a BroadcastChannel and listen for messages from other tabs.
+ * Messages are never delivered back to the tab that posted them.
+ * Where BroadcastChannel is unavailable the channel silently does nothing.
+ */
+export function openCrossTabChannel<T>(name: string, onMessage: (message: T) => void): CrossTabChannel<T> {
+    if (typeof BroadcastChannel === 'undefined') {
+        return { post: () => {}, close: () => {} };
+    }
+
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent<T>) => onMessage(event.data);
+
+    return {
+        post: (message: T) => {
+            try {
+                channel.postMessage(message);
+            } catch (error) {
+                console.error(`[CrossTab] Failed to post to ${name}:`, error);
+            }
+        },
+        close: () => channel.close()
+    };
+}
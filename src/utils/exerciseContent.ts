@@ -0,0 +1,40 @@
+import React, { type ReactNode } from 'react';
+import { generateExplicitExerciseId, generateStableExerciseId } from './exerciseId';
+import type { ExerciseDefinition } from '../lib/exercises/exerciseDefinition';
+
+/**
+ * Text of a React node tree, for exercises whose ID is derived from their children
+ * @param separator - Joins sibling nodes, e.g. '' to keep words split by blanks intact
+ */
+export function getTextContent(node: ReactNode, separator: string): string {
+    if (typeof node === 'string') return node;
+    if (typeof node === 'number') return node.toString();
+    if (Array.isArray(node)) return node.map(child => getTextContent(child, separator)).join(separator);
+    if (React.isValidElement(node)) {
+        const props = node.props as { children?: ReactNode };
+        return getTextContent(props.children, separator);
+    }
+    return '';
+}
+
+/**
+ * Content the default ID of an exercise is hashed from
+ * @param exercise - Definition of the exercise type
+ * @param props - Props the exercise is rendered with
+ */
+export function getExerciseContentKey<P>(exercise: ExerciseDefinition<P>, props: Partial<P>): string {
+    return exercise.getContentKey(props) ?? '';
+}
+
+/**
+ * ID of an exercise as rendered on a lesson page: its explicit `id` prop if set,
+ * the hash of its content otherwise
+ * @param lessonPath - Lesson path from location.pathname
+ * @param exercise - Definition of the exercise type
+ * @param props - Props the exercise is rendered with
+ */
+export function getExerciseId<P>(lessonPath: string, exercise: ExerciseDefinition<P>, props: Partial<P> & { id?: string }): string {
+    return props.id
+        ? generateExplicitExerciseId(lessonPath, exercise.type, props.id)
+        : generateStableExerciseId(lessonPath, exercise.type, getExerciseContentKey(exercise, props));
+}
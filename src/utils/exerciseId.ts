@@ -17,6 +17,33 @@ export function generateStableExerciseId(
     return `${cleanPath}:${exerciseType}:${hash}`;
 }
 
+/**
+ * Generate the ID of an exercise that has an explicit `id` prop.
+ * Unlike the content hash it stays the same when the exercise content is edited.
+ * @param lessonPath - Current lesson path from location.pathname
+ * @param exerciseType - Type of exercise (Quiz, Matching, etc.)
+ * @param id - Author-given ID, unique within the lesson
+ * @returns Stable exercise ID
+ */
+export function generateExplicitExerciseId(
+    lessonPath: string,
+    exerciseType: string,
+    id: string
+): string {
+    const cleanPath = normalizePath(lessonPath);
+    return `${cleanPath}:${exerciseType}:#${id}`;
+}
+
+/**
+ * Extract the exercise type from an ID built by generateStableExerciseId
+ * @param exerciseId - ID in the form "path:Type:hash" or "path:Type:#id"
+ * @returns Exercise type, or an empty string if the ID has another shape
+ */
+export function getExerciseTypeFromId(exerciseId: string): string {
+    const parts = exerciseId.split(':');
+    return parts.length >= 3 ? parts[parts.length - 2] : '';
+}
+
 /**
  * Simple hash function for strings
  * Returns a positive integer hash as string
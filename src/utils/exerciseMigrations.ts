@@ -0,0 +1,49 @@
+import yaml from 'js-yaml';
+import { normalizePath } from './pathUtils';
+
+// src/content/exercise-migrations.yaml maps, per lesson path, the old
+// content-hash ID suffix of an exercise ("Type:hash") to the explicit `id`
+// it has now, so progress recorded before the exercise was edited is kept:
+//
+//   /blok-3/urok-16:
+//     "Quiz:1234567": artikel-quiz
+type MigrationTable = Record<string, Record<string, string> | null>;
+
+let migrationTable: Map<string, Record<string, string>> | null = null;
+
+function loadMigrationTable(): Map<string, Record<string, string>> {
+    if (migrationTable) return migrationTable;
+    migrationTable = new Map();
+
+    const modules = import.meta.glob('../content/exercise-migrations.yaml', { query: '?raw', import: 'default', eager: true });
+    const yamlContent = modules['../content/exercise-migrations.yaml'] as string | undefined;
+    if (!yamlContent) return migrationTable;
+
+    try {
+        const table = (yaml.load(yamlContent) ?? {}) as MigrationTable;
+        Object.entries(table).forEach(([lessonPath, ids]) => {
+            const cleanPath = normalizePath(lessonPath.startsWith('/') ? lessonPath : `/${lessonPath}`);
+            migrationTable!.set(cleanPath, ids ?? {});
+        });
+    } catch (e) {
+        console.error('[ExerciseMigrations] Failed to parse exercise-migrations.yaml', e);
+    }
+    return migrationTable;
+}
+
+/**
+ * Previous content-hash IDs that the migration table assigns to an explicit ID
+ * @param lessonPath - Current lesson path from location.pathname
+ * @param exerciseType - Type of exercise (Quiz, Matching, etc.)
+ * @param id - Explicit `id` prop of the exercise
+ * @returns Full exercise IDs whose progress belongs to the exercise now
+ */
+export function getMigratedExerciseIds(lessonPath: string, exerciseType: string, id: string): string[] {
+    const cleanPath = normalizePath(lessonPath);
+    const ids = loadMigrationTable().get(cleanPath);
+    if (!ids) return [];
+
+    return Object.entries(ids)
+        .filter(([oldId, newId]) => newId === id && oldId.startsWith(`${exerciseType}:`))
+        .map(([oldId]) => `${cleanPath}:${oldId}`);
+}
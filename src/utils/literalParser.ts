@@ -0,0 +1,206 @@
+// Parser for the literal values authors write in exercise props, e.g.
+//   pairs={[{ left: 'Hund', right: "dog" }, ]}
+// Supports objects, arrays, strings (single, double or backtick quoted without
+// ${}), numbers, booleans, null, unquoted keys, trailing commas and comments.
+// Nothing is ever executed: identifiers, calls and operators are rejected.
+
+export class LiteralSyntaxError extends Error {
+    reason: string; // Message without the position
+    offset: number; // Position in the parsed source, 0-based
+    line: number; // 1-based
+    column: number; // 1-based
+
+    constructor(message: string, source: string, offset: number) {
+        const before = source.slice(0, offset).split('\n');
+        const line = before.length;
+        const column = before[before.length - 1].length + 1;
+        super(`${message} (line ${line}, column ${column})`);
+        this.name = 'LiteralSyntaxError';
+        this.reason = message;
+        this.offset = offset;
+        this.line = line;
+        this.column = column;
+    }
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', v: '\v', '0': '\0' };
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null };
+
+class LiteralParser {
+    private source: string;
+    private pos = 0;
+
+    constructor(source: string) {
+        this.source = source;
+    }
+
+    parse(): unknown {
+        const value = this.parseValue();
+        this.skipWhitespace();
+        if (this.pos < this.source.length) this.fail(`Unexpected "${this.source[this.pos]}" after value`);
+        return value;
+    }
+
+    private fail(message: string, offset: number = this.pos): never {
+        throw new LiteralSyntaxError(message, this.source, offset);
+    }
+
+    private skipWhitespace(): void {
+        while (this.pos < this.source.length) {
+            const rest = this.source.slice(this.pos, this.pos + 2);
+            if (/\s/.test(this.source[this.pos])) {
+                this.pos++;
+            } else if (rest === '//') {
+                const end = this.source.indexOf('\n', this.pos);
+                this.pos = end === -1 ? this.source.length : end;
+            } else if (rest === '/*') {
+                const end = this.source.indexOf('*/', this.pos + 2);
+                if (end === -1) this.fail('Unterminated comment');
+                this.pos = end + 2;
+            } else {
+                return;
+            }
+        }
+    }
+
+    private parseValue(): unknown {
+        this.skipWhitespace();
+        const char = this.source[this.pos];
+
+        if (char === undefined) this.fail('Unexpected end of input, expected a value');
+        if (char === '{') return this.parseObject();
+        if (char === '[') return this.parseArray();
+        if (char === '"' || char === "'" || char === '`') return this.parseString();
+        if (/[-+.\d]/.test(char)) return this.parseNumber();
+
+        const start = this.pos;
+        const word = this.readIdentifier();
+        if (Object.hasOwn(KEYWORDS, word)) return KEYWORDS[word];
+        this.fail(word ? `"${word}" is not allowed, only literal values are` : `Unexpected "${char}"`, start);
+    }
+
+    private parseObject(): Record<string, unknown> {
+        const result: Record<string, unknown> = {};
+        this.pos++; // {
+
+        for (;;) {
+            this.skipWhitespace();
+            if (this.source[this.pos] === '}') {
+                this.pos++;
+                return result;
+            }
+
+            const key = this.parseKey();
+            this.skipWhitespace();
+            if (this.source[this.pos] !== ':') this.fail(`Expected ":" after key "${key}"`);
+            this.pos++;
+            // defineProperty so a "__proto__" key stays a plain property
+            Object.defineProperty(result, key, { value: this.parseValue(), enumerable: true, writable: true, configurable: true });
+
+            this.skipWhitespace();
+            const next = this.source[this.pos];
+            if (next === ',') this.pos++;
+            else if (next !== '}') this.fail(next === undefined ? 'Unterminated object, expected "}"' : `Expected "," or "}" but found "${next}"`);
+        }
+    }
+
+    private parseKey(): string {
+        const char = this.source[this.pos];
+        if (char === '"' || char === "'") return this.parseString();
+        if (char !== undefined && /\d/.test(char)) return String(this.parseNumber());
+
+        const key = this.readIdentifier();
+        if (!key) this.fail(char === undefined ? 'Unterminated object, expected "}"' : `Expected a property name but found "${char}"`);
+        return key;
+    }
+
+    private parseArray(): unknown[] {
+        const result: unknown[] = [];
+        this.pos++; // [
+
+        for (;;) {
+            this.skipWhitespace();
+            if (this.source[this.pos] === ']') {
+                this.pos++;
+                return result;
+            }
+
+            result.push(this.parseValue());
+
+            this.skipWhitespace();
+            const next = this.source[this.pos];
+            if (next === ',') this.pos++;
+            else if (next !== ']') this.fail(next === undefined ? 'Unterminated array, expected "]"' : `Expected "," or "]" but found "${next}"`);
+        }
+    }
+
+    private parseString(): string {
+        const start = this.pos;
+        const quote = this.source[this.pos++];
+        let result = '';
+
+        while (this.pos < this.source.length) {
+            const char = this.source[this.pos];
+            if (char === quote) {
+                this.pos++;
+                return result;
+            }
+            if (quote === '`' && this.source.startsWith('${', this.pos)) {
+                this.fail('Template expressions are not allowed');
+            }
+            if (quote !== '`' && char === '\n') break;
+            if (char === '\\') {
+                result += this.parseEscape();
+                continue;
+            }
+            result += char;
+            this.pos++;
+        }
+
+        this.fail('Unterminated string', start);
+    }
+
+    private parseEscape(): string {
+        const start = this.pos;
+        const char = this.source[this.pos + 1];
+        this.pos += 2;
+
+        if (char === undefined) this.fail('Unterminated string', start);
+        if (char === '\n') return ''; // Line continuation
+        if (char === 'u' || char === 'x') {
+            const match = char === 'u'
+                ? this.source.slice(this.pos).match(/^(?:\{([0-9a-fA-F]{1,6})\}|([0-9a-fA-F]{4}))/)
+                : this.source.slice(this.pos).match(/^([0-9a-fA-F]{2})/);
+            if (!match) this.fail(`Invalid \\${char} escape`, start);
+            this.pos += match[0].length;
+            return String.fromCodePoint(parseInt(match[1] ?? match[2], 16));
+        }
+        return ESCAPES[char] ?? char;
+    }
+
+    private parseNumber(): number {
+        const start = this.pos;
+        const match = this.source.slice(this.pos).match(/^([-+]?)(0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/);
+        if (!match) this.fail('Invalid number', start);
+        this.pos += match[0].length;
+        if (/[\w$]/.test(this.source[this.pos] ?? '')) this.fail('Invalid number', start);
+        const value = Number(match[2]);
+        return match[1] === '-' ? -value : value;
+    }
+
+    private readIdentifier(): string {
+        const match = this.source.slice(this.pos).match(/^[A-Za-z_$][\w$]*/);
+        if (!match) return '';
+        this.pos += match[0].length;
+        return match[0];
+    }
+}
+
+/**
+ * Parse a literal value without evaluating any code
+ * @param source - Source of the value, e.g. the inside of a {...} prop
+ * @throws LiteralSyntaxError with the position of the first unsupported or invalid token
+ */
+export function parseLiteral(source: string): unknown {
+    return new LiteralParser(source).parse();
+}
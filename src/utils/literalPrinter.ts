@@ -0,0 +1,93 @@
+// Printer for the literal values of exercise props, the counterpart of
+// literalParser.ts. Output follows the layout authors use in lessons: one array
+// item per line, flat objects on a single line, e.g.
+//   pairs={[
+//       { left: "Hund", right: "dog" },
+//       { left: "Katze", right: "cat" }
+//   ]}
+
+export interface LiteralStyle {
+    quote: '"' | "'";
+    indent: string; // One level of indentation
+    bracketSpacing: boolean; // "{ left: ... }" rather than "{left: ...}"
+}
+
+export const DEFAULT_LITERAL_STYLE: LiteralStyle = { quote: '"', indent: '    ', bracketSpacing: true };
+
+// Arrays of plain values stay on one line up to this width
+const MAX_INLINE_WIDTH = 80;
+
+/**
+ * Style of an existing literal, so a re-printed value looks like the rest of the file
+ * @param source - Source of the literal, e.g. the inside of a {...} prop
+ * @param baseIndent - Indentation of the line the literal starts on
+ */
+export function detectLiteralStyle(source: string, baseIndent = ''): LiteralStyle {
+    const style = { ...DEFAULT_LITERAL_STYLE };
+
+    const quote = source.match(/["']/);
+    if (quote) style.quote = quote[0] as LiteralStyle['quote'];
+
+    // A multi-line literal keeps its indentation, even none: the shallowest line
+    // that doesn't just close a bracket is one level in
+    const indents = source.split('\n').slice(1)
+        .filter(line => /^\s*[^\s\]}]/.test(line))
+        .map(line => line.match(/^[ \t]*/)![0])
+        .filter(indent => indent.startsWith(baseIndent));
+    if (indents.length > 0) {
+        style.indent = indents.reduce((min, indent) => indent.length < min.length ? indent : min).slice(baseIndent.length);
+    }
+
+    const object = source.match(/\{(\s?)[\w"']/);
+    if (object) style.bracketSpacing = object[1] === ' ';
+
+    return style;
+}
+
+const isPlain = (value: unknown) => value === null || typeof value !== 'object';
+
+function printString(value: string, quote: string): string {
+    const escaped = value
+        .replace(/\\/g, '\\\\')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r')
+        .replace(/\t/g, '\\t')
+        .split(quote).join(`\\${quote}`);
+    return `${quote}${escaped}${quote}`;
+}
+
+function printKey(key: string, quote: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? key : printString(key, quote);
+}
+
+function printInline(value: unknown, style: LiteralStyle): string {
+    if (typeof value === 'string') return printString(value, style.quote);
+    if (typeof value === 'number' || typeof value === 'boolean' || value === null) return String(value);
+    if (Array.isArray(value)) return `[${value.map(item => printInline(item, style)).join(', ')}]`;
+
+    const entries = Object.entries(value as Record<string, unknown>).filter(([, item]) => item !== undefined);
+    if (entries.length === 0) return '{}';
+    const space = style.bracketSpacing ? ' ' : '';
+    return `{${space}${entries.map(([key, item]) => `${printKey(key, style.quote)}: ${printInline(item, style)}`).join(', ')}${space}}`;
+}
+
+/**
+ * Print a literal value so that literalParser reads it back unchanged
+ * @param value - Value made of objects, arrays, strings, numbers, booleans and null
+ * @param baseIndent - Indentation of the line the value starts on
+ */
+export function printLiteral(value: unknown, style: LiteralStyle = DEFAULT_LITERAL_STYLE, baseIndent = ''): string {
+    if (isPlain(value)) return printInline(value, style);
+
+    const inner = baseIndent + style.indent;
+    if (Array.isArray(value)) {
+        const inline = printInline(value, style);
+        if (value.length === 0 || (value.every(isPlain) && baseIndent.length + inline.length <= MAX_INLINE_WIDTH)) return inline;
+        return `[\n${value.map(item => inner + printLiteral(item, style, inner)).join(',\n')}\n${baseIndent}]`;
+    }
+
+    const entries = Object.entries(value as Record<string, unknown>).filter(([, item]) => item !== undefined);
+    if (entries.every(([, item]) => isPlain(item))) return printInline(value, style);
+    const lines = entries.map(([key, item]) => `${inner}${printKey(key, style.quote)}: ${printLiteral(item, style, inner)}`);
+    return `{\n${lines.join(',\n')}\n${baseIndent}}`;
+}
@@ -1,136 +1,200 @@
+import { createProcessor } from '@mdx-js/mdx';
+import remarkGfm from 'remark-gfm';
+import remarkFrontmatter from 'remark-frontmatter';
+import { getExercise } from '../lib/exercises/registry';
+import type { ExerciseType } from '../lib/exercises/exerciseDefinition';
+import { LiteralSyntaxError, parseLiteral } from './literalParser';
+import { DEFAULT_LITERAL_STYLE, detectLiteralStyle, printLiteral, type LiteralStyle } from './literalPrinter';
+
 export interface ExerciseComponent {
-    type: 'Quiz' | 'Ordering' | 'Matching' | 'FillBlanks' | 'InlineBlanks' | 'Grouping' | 'Media' | 'Dialogue' | 'InteractiveMedia' | 'AudioPhrase' | 'SpeakingChallenge' | 'Flashcards' | 'ImageLabeling';
+    type: ExerciseType; // Registered type, also when the source uses an alias
     props: Record<string, any>;
+    propSources: Record<string, string>; // Source of each attribute as written, e.g. pairs={[...]}
+    propErrors: Record<string, LiteralSyntaxError>; // Props that aren't literal values, positioned in the document
+    propRanges: Record<string, { start: number; end: number }>; // Document offsets of each attribute
+    parsedProps: Record<string, any>; // Props as parsed, to tell which ones were edited since
     raw: string;
     startIndex: number;
     endIndex: number;
-    children?: string; // For components with children like Quiz or FillBlanks
+    line: number;
+    column: number;
+    children?: string; // Source between the opening and closing tag, for components like Quiz or FillBlanks
+    childrenStartIndex?: number;
+    parent?: ExerciseComponent; // Closest enclosing exercise, e.g. the InteractiveMedia around a Quiz
+    nested: ExerciseComponent[]; // Exercises inside this one, in source order
+    elements: JsxElement[]; // Other components inside this one (Option, Checkpoint, Message, ...), not those of nested exercises
 }
 
-// Helper to parse props string like: answer="2" multiple={true} pairs={[{...}]}
-const parseProps = (propsString: string): Record<string, any> => {
-    const props: Record<string, any> = {};
-    let i = 0;
+export interface JsxElement {
+    name: string;
+    props: Record<string, any>;
+    propErrors: Record<string, LiteralSyntaxError>;
+    line: number;
+    column: number;
+}
 
-    while (i < propsString.length) {
-        // Skip whitespace
-        if (/\s/.test(propsString[i])) {
-            i++;
-            continue;
-        }
+interface Position {
+    start: { line: number; column: number; offset?: number };
+    end: { line: number; column: number; offset?: number };
+}
 
-        // Find key
-        const keyStart = i;
-        while (i < propsString.length && /[\w-]/.test(propsString[i])) {
-            i++;
-        }
-        const key = propsString.substring(keyStart, i);
+interface MdxNode {
+    type: string;
+    name?: string | null;
+    attributes?: MdxAttribute[];
+    children?: MdxNode[];
+    position?: Position;
+}
 
-        if (!key) {
-            i++;
-            continue;
-        }
+interface MdxAttribute {
+    type: 'mdxJsxAttribute' | 'mdxJsxExpressionAttribute';
+    name?: string;
+    value?: string | { type: 'mdxJsxAttributeValueExpression'; value: string } | null;
+    position?: Position;
+}
 
-        // Expect =
-        if (propsString[i] !== '=') {
-            // Boolean prop (e.g. <Component multiple />)
-            props[key] = true;
-            continue;
-        }
-        i++; // skip =
-
-        // Value
-        if (propsString[i] === '"' || propsString[i] === "'") {
-            const quote = propsString[i];
-            i++;
-            const valStart = i;
-            while (i < propsString.length && propsString[i] !== quote) {
-                // Handle escaped quotes if needed, but simple for now
-                if (propsString[i] === '\\') i++;
-                i++;
-            }
-            props[key] = propsString.substring(valStart, i);
-            i++; // skip closing quote
-        } else if (propsString[i] === '{') {
-            i++; // skip opening {
-            const valStart = i;
-            let braceCount = 1;
-            while (i < propsString.length && braceCount > 0) {
-                if (propsString[i] === '{') braceCount++;
-                if (propsString[i] === '}') braceCount--;
-                if (braceCount > 0) i++;
-            }
-            const valueStr = propsString.substring(valStart, i);
-            i++; // skip closing }
+const parseAttributes = (attributes: MdxAttribute[], mdx: string) => {
+    const props: Record<string, any> = {};
+    const propSources: Record<string, string> = {};
+    const propErrors: Record<string, LiteralSyntaxError> = {};
+    const propRanges: Record<string, { start: number; end: number }> = {};
 
+    attributes.forEach(attribute => {
+        // Spread attributes ({...props}) can't be resolved statically
+        if (attribute.type !== 'mdxJsxAttribute' || !attribute.name) return;
+        const { name, value, position } = attribute;
+
+        if (value === null || value === undefined) {
+            props[name] = true; // Boolean prop (e.g. <Quiz multiple />)
+        } else if (typeof value === 'string') {
+            props[name] = value;
+        } else {
+            // Content may come from the GitHub file system or AI output, so
+            // expressions are parsed as literals and never executed. The source is
+            // read from the document, the parsed value has its indentation stripped.
+            const expressionStart = position ? mdx.indexOf('{', position.start.offset) + 1 : 0;
+            const expression = position ? mdx.slice(expressionStart, position.end.offset! - 1) : value.value;
             try {
-                // Safe eval
-                const safeValue = new Function(`return ${valueStr}`)();
-                props[key] = safeValue;
+                props[name] = parseLiteral(expression);
             } catch (e) {
-                console.warn(`Failed to parse prop ${key}:`, e);
-                props[key] = valueStr;
+                if (!(e instanceof LiteralSyntaxError)) throw e;
+                propErrors[name] = position ? new LiteralSyntaxError(e.reason, mdx, expressionStart + e.offset) : e;
+                console.warn(`Failed to parse prop ${name}:`, propErrors[name].message);
+                props[name] = value.value;
             }
-        } else {
-            // Unquoted string? or number? Skip for now or handle until space
-            // Just skip to next space
-            while (i < propsString.length && !/\s/.test(propsString[i])) i++;
         }
+
+        if (position?.start.offset !== undefined && position.end.offset !== undefined) {
+            propSources[name] = mdx.slice(position.start.offset, position.end.offset);
+            propRanges[name] = { start: position.start.offset, end: position.end.offset };
+        }
+    });
+
+    return { props, propSources, propErrors, propRanges };
+};
+
+const toExerciseComponent = (node: MdxNode, type: ExerciseType, mdx: string, parent?: ExerciseComponent): ExerciseComponent => {
+    const { start, end } = node.position!;
+    const tagName = node.name!; // The type or one of its aliases
+    const startIndex = start.offset!;
+    const endIndex = end.offset!;
+    const raw = mdx.slice(startIndex, endIndex);
+    const attributes = node.attributes ?? [];
+    const { props, propSources, propErrors, propRanges } = parseAttributes(attributes, mdx);
+
+    const component: ExerciseComponent = {
+        type,
+        props,
+        propSources,
+        propErrors,
+        propRanges,
+        parsedProps: structuredClone(props),
+        raw,
+        startIndex,
+        endIndex,
+        line: start.line,
+        column: start.column,
+        parent,
+        nested: [],
+        elements: []
+    };
+
+    // The opening tag ends at the first ">" after its last attribute; expressions
+    // inside attributes may contain ">" themselves
+    const lastAttributeEnd = attributes.reduce((max, a) => Math.max(max, a.position?.end.offset ?? 0), 0);
+    const openTagEnd = mdx.indexOf('>', Math.max(lastAttributeEnd, startIndex + tagName.length + 1)) + 1;
+    const closingTag = raw.match(new RegExp(`</\\s*${tagName}\\s*>$`));
+    if (closingTag) {
+        component.childrenStartIndex = openTagEnd;
+        component.children = mdx.slice(openTagEnd, endIndex - closingTag[0].length);
     }
 
-    return props;
+    return component;
 };
 
+/**
+ * Parse the exercises of an MDX document with the MDX parser itself, so nested
+ * components, multi-line props and ">" inside prop expressions are handled.
+ * @param mdx - MDX source
+ * @returns Top-level exercises in source order; exercises inside other components
+ * (Checkpoint, Message, ...) are listed under the closest enclosing exercise in
+ * `nested`, or at the top level if there is none
+ * @throws The MDX syntax error (with line and column) if the document doesn't parse
+ */
 export const parseExercises = (mdx: string): ExerciseComponent[] => {
+    const tree = createProcessor({ remarkPlugins: [remarkGfm, remarkFrontmatter] }).parse(mdx) as MdxNode;
     const exercises: ExerciseComponent[] = [];
 
-    // Regex for self-closing tags: <Component ... />
-    // and paired tags: <Component ...>...</Component>
-
-    const componentTypes = ['Quiz', 'Ordering', 'Matching', 'FillBlanks', 'InlineBlanks', 'Grouping', 'Media', 'Dialogue', 'InteractiveMedia', 'AudioPhrase', 'SpeakingChallenge', 'Flashcards', 'ImageLabeling'];
-
-    componentTypes.forEach(type => {
-        // Match self-closing: <Type ... />
-        const selfClosingRegex = new RegExp(`<${type}(\\s+[^>]*?)?/>`, 'g');
-        let match;
-        while ((match = selfClosingRegex.exec(mdx)) !== null) {
-            exercises.push({
-                type: type as any,
-                props: parseProps(match[1] || ''),
-                raw: match[0],
-                startIndex: match.index,
-                endIndex: match.index + match[0].length
-            });
+    const visit = (node: MdxNode, parent?: ExerciseComponent) => {
+        let container = parent;
+        const isJsx = node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement';
+        const exercise = isJsx && node.name ? getExercise(node.name) : undefined;
+        if (exercise && node.position) {
+            const component = toExerciseComponent(node, exercise.type, mdx, parent);
+            (parent ? parent.nested : exercises).push(component);
+            container = component;
+        } else if (isJsx && node.name && parent && node.position) {
+            const { props, propErrors } = parseAttributes(node.attributes ?? [], mdx);
+            parent.elements.push({ name: node.name, props, propErrors, line: node.position.start.line, column: node.position.start.column });
         }
+        node.children?.forEach(child => visit(child, container));
+    };
+    visit(tree);
 
-        // Match paired: <Type ...>...</Type>
-        // Note: This regex is greedy and might fail with nested same-type components.
-        // Assuming no nesting of same exercises for now.
-        const pairedRegex = new RegExp(`<${type}(\\s+[^>]*)?>([\\s\\S]*?)</${type}>`, 'g');
-        while ((match = pairedRegex.exec(mdx)) !== null) {
-            exercises.push({
-                type: type as any,
-                props: parseProps(match[1] || ''),
-                raw: match[0],
-                startIndex: match.index,
-                endIndex: match.index + match[0].length,
-                children: match[2]
-            });
-        }
-    });
+    return exercises;
+};
 
-    // Sort by position
-    return exercises.sort((a, b) => a.startIndex - b.startIndex);
+// All exercises of a parsed tree in source order, nested ones included
+export const flattenExercises = (exercises: ExerciseComponent[]): ExerciseComponent[] =>
+    exercises.flatMap(exercise => [exercise, ...flattenExercises(exercise.nested)]);
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const aKeys = Object.keys(a);
+    return aKeys.length === Object.keys(b).length &&
+        aKeys.every(key => isSameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
 };
 
-export const generateComponentCode = (component: ExerciseComponent): string => {
+// Indentation of the line `offset` is on
+const indentAt = (text: string, offset: number) =>
+    text.slice(text.lastIndexOf('\n', offset - 1) + 1).match(/^[ \t]*/)![0];
+
+// Source of one attribute, or undefined for values MDX can't hold (e.g. callbacks the editor passes in)
+const printAttribute = (key: string, value: unknown, style: LiteralStyle, indent: string): string | undefined => {
+    if (typeof value === 'string' && !value.includes('\n')) {
+        if (!value.includes('"')) return `${key}="${value}"`;
+        if (!value.includes("'")) return `${key}='${value}'`;
+    }
+    if (value === undefined || typeof value === 'function' || typeof value === 'symbol') return undefined;
+    return `${key}={${printLiteral(value, style, indent)}}`;
+};
+
+const printComponent = (component: ExerciseComponent): string => {
     const propsStr = Object.entries(component.props)
-        .map(([key, value]) => {
-            if (typeof value === 'string') return `${key}="${value}"`;
-            if (typeof value === 'number' || typeof value === 'boolean') return `${key}={${value}}`;
-            if (typeof value === 'object') return `${key}={${JSON.stringify(value)}}`; // formatting might be ugly
-            return '';
-        })
+        .map(([key, value]) => printAttribute(key, value, DEFAULT_LITERAL_STYLE, ''))
+        .filter(Boolean)
         .join(' ');
 
     const openTag = `<${component.type}${propsStr ? ' ' + propsStr : ''}`;
@@ -143,6 +207,68 @@ export const generateComponentCode = (component: ExerciseComponent): string => {
     }
 };
 
+/**
+ * Source of an exercise after its props or children were edited. For a parsed
+ * exercise only what changed is rewritten: untouched props keep their layout,
+ * quotes and comments, and edited arrays/objects are printed over several lines
+ * in the style of the prop they replace. Exercises that aren't in a document yet
+ * are printed from scratch.
+ */
+export const generateComponentCode = (component: ExerciseComponent): string => {
+    const { raw, startIndex, propRanges, parsedProps } = component;
+    if (!raw || !propRanges) return printComponent(component);
+
+    const tagName = raw.match(/^<([\w.]+)/)?.[1] ?? component.type;
+    const tagIndent = ' '.repeat(component.column - 1);
+    const edits: Array<{ start: number; end: number; text: string }> = [];
+
+    Object.entries(propRanges).forEach(([key, range]) => {
+        const start = range.start - startIndex;
+        const end = range.end - startIndex;
+        const value = component.props[key];
+
+        if (value === undefined) {
+            // Removed, along with the whitespace that separated it
+            const space = raw.slice(0, start).match(/\s*$/)![0].length;
+            edits.push({ start: start - space, end, text: '' });
+        } else if (!isSameValue(value, parsedProps[key])) {
+            const indent = raw.lastIndexOf('\n', start) === -1 ? tagIndent : indentAt(raw, start);
+            const source = component.propSources[key] ?? '';
+            const style = detectLiteralStyle(source.slice(source.indexOf('{') + 1), indent);
+            edits.push({ start, end, text: printAttribute(key, value, style, indent) ?? '' });
+        }
+    });
+
+    // New props go after the last attribute
+    const added = Object.entries(component.props)
+        .filter(([key]) => !Object.hasOwn(propRanges, key))
+        .map(([key, value]) => printAttribute(key, value, detectLiteralStyle(raw, tagIndent), tagIndent))
+        .filter(Boolean);
+    if (added.length > 0) {
+        const lastEnd = Math.max(1 + tagName.length, ...Object.values(propRanges).map(range => range.end - startIndex));
+        edits.push({ start: lastEnd, end: lastEnd, text: added.map(attribute => ' ' + attribute).join('') });
+    }
+
+    if (component.children !== undefined) {
+        if (component.childrenStartIndex !== undefined) {
+            const childrenStart = component.childrenStartIndex - startIndex;
+            const childrenEnd = raw.lastIndexOf('</');
+            if (raw.slice(childrenStart, childrenEnd) !== component.children) {
+                edits.push({ start: childrenStart, end: childrenEnd, text: component.children });
+            }
+        } else {
+            // Children added to a self-closing tag
+            const selfClosing = raw.match(/\s*\/>$/)!;
+            const tagEnd = raw.length - selfClosing[0].length;
+            edits.push({ start: tagEnd, end: raw.length, text: `>\n\n${component.children}\n\n</${tagName}>` });
+        }
+    }
+
+    return edits
+        .sort((a, b) => b.start - a.start)
+        .reduce((code, edit) => code.slice(0, edit.start) + edit.text + code.slice(edit.end), raw);
+};
+
 export const generatePreviewCode = (component: ExerciseComponent): string => {
     const propsStr = Object.entries(component.props)
         .map(([key, value]) => {
@@ -0,0 +1,17 @@
+// Helper to parse time string "00:00:14,480" or "00:14" to seconds
+export const parseTime = (time: number | string): number => {
+    if (typeof time === 'number') return time;
+
+    // Replace comma with dot for standard parsing if needed, though we'll split manually
+    const cleanTime = time.replace(',', '.');
+    const parts = cleanTime.split(':').map(parseFloat);
+
+    if (parts.length === 3) {
+        // HH:MM:SS.ms
+        return parts[0] * 3600 + parts[1] * 60 + parts[2];
+    } else if (parts.length === 2) {
+        // MM:SS.ms
+        return parts[0] * 60 + parts[1];
+    }
+    return parseFloat(cleanTime);
+};
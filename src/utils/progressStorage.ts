@@ -1,10 +1,41 @@
-// Progress tracking utilities for localStorage
+// Progress tracking utilities. Persistence is handled by the ProgressStore
+// implementations in lib/progress; these functions work on the loaded entries.
+
+import {
+    DEFAULT_QUALITY,
+    qualityFromMistakes,
+    scheduleReview,
+    shouldReschedule,
+    isReviewDue,
+    type ReviewSchedule
+} from './spacedRepetition';
+import { getLessonStats, type LessonStats, type ProgressIndex } from '../lib/progress/progressIndex';
+
+export interface ExerciseAttempt {
+    timestamp: number; // When the attempt started
+    duration: number; // Milliseconds until it was completed or abandoned
+    wrongSubmissions: number;
+    hintsUsed: number;
+    wrongAnswers: string[];
+    completed: boolean;
+    submission?: WritingSubmission; // Text handed in by a WritingTask
+}
+
+export interface WritingSubmission {
+    text: string;
+    wordCount: number;
+    checked: string[]; // Self-assessment items the learner ticked
+    checklist: string[]; // All items that were offered
+}
 
 export interface ExerciseProgress {
     exerciseId: string;
     lessonPath: string;
     completed: boolean;
     lastAttempt?: number;
+    modifiedAt?: number; // Bumped by every write; sync keeps the entry with the latest one
+    review?: ReviewSchedule;
+    attempts?: ExerciseAttempt[];
 }
 
 export interface LessonProgress {
@@ -12,6 +43,8 @@ export interface LessonProgress {
     totalExercises: number;
     completedExercises: number;
     percentage: number;
+    attemptCount: number;
+    accuracy: number | null; // Share of correct submissions, null until something was attempted
 }
 
 export interface FolderProgress {
@@ -32,60 +65,115 @@ export interface CourseProgress {
     percentage: number;
 }
 
-const STORAGE_KEY = 'yazula_progress';
+// Entries written before modifiedAt existed fall back to their last attempt
+export function getModifiedAt(entry: ExerciseProgress): number {
+    return entry.modifiedAt ?? entry.lastAttempt ?? 0;
+}
 
-// Get all exercise progress data
-export function getAllProgress(): Map<string, ExerciseProgress> {
-    try {
-        const data = localStorage.getItem(STORAGE_KEY);
-        if (!data) return new Map();
+// Strictly later than the previous write, even within the same millisecond
+export function nextModifiedAt(previous: ExerciseProgress | undefined, now: number = Date.now()): number {
+    return Math.max(now, previous ? getModifiedAt(previous) + 1 : 0);
+}
 
-        const parsed = JSON.parse(data);
-        return new Map(Object.entries(parsed));
-    } catch (error) {
-        console.error('Error loading progress:', error);
-        return new Map();
-    }
+// Mark an exercise as completed and feed the recall quality into the review scheduler
+export function completeExercise(
+    previous: ExerciseProgress | undefined,
+    exerciseId: string,
+    lessonPath: string,
+    quality: number = DEFAULT_QUALITY,
+    now: number = Date.now()
+): ExerciseProgress {
+    const previousSchedule = previous ? getReviewSchedule(previous) : undefined;
+
+    return {
+        ...previous,
+        exerciseId,
+        lessonPath,
+        completed: true,
+        lastAttempt: now,
+        modifiedAt: nextModifiedAt(previous, now),
+        review: shouldReschedule(previousSchedule, quality, now)
+            ? scheduleReview(previousSchedule, quality, now)
+            : previousSchedule
+    };
 }
 
-// Save exercise progress
-export function saveExerciseProgress(exerciseId: string, lessonPath: string): void {
-    try {
-        const progress = getAllProgress();
-        progress.set(exerciseId, {
-            exerciseId,
-            lessonPath,
-            completed: true,
-            lastAttempt: Date.now()
-        });
-
-        const obj = Object.fromEntries(progress);
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(obj));
-    } catch (error) {
-        console.error('Error saving progress:', error);
-    }
+// Append an attempt to the exercise history. Completed attempts also mark the
+// exercise as done, graded by the mistakes and hints of that attempt.
+export function appendExerciseAttempt(
+    previous: ExerciseProgress | undefined,
+    exerciseId: string,
+    lessonPath: string,
+    attempt: ExerciseAttempt
+): ExerciseProgress {
+    const base = attempt.completed
+        ? completeExercise(previous, exerciseId, lessonPath, qualityFromMistakes(attempt.wrongSubmissions, attempt.hintsUsed > 0))
+        : previous;
+
+    return {
+        exerciseId,
+        lessonPath,
+        completed: false,
+        ...base,
+        // Abandoned attempts count as a write too, so sync and import merges see them
+        lastAttempt: Math.max(base?.lastAttempt ?? 0, attempt.timestamp + attempt.duration),
+        modifiedAt: nextModifiedAt(base),
+        attempts: [...(base?.attempts || []), attempt]
+    };
+}
+
+export function getExerciseAttempts(progress: Map<string, ExerciseProgress>, exerciseId: string): ExerciseAttempt[] {
+    return progress.get(exerciseId)?.attempts ?? [];
+}
+
+// Correct submissions divided by all submissions in the lesson
+function calculateAccuracy(stats: LessonStats): { attemptCount: number; accuracy: number | null } {
+    const submissions = stats.correctSubmissions + stats.wrongSubmissions;
+    return {
+        attemptCount: stats.attemptCount,
+        accuracy: submissions > 0 ? Math.round((stats.correctSubmissions / submissions) * 100) : null
+    };
 }
 
 // Check if exercise is completed
-export function isExerciseCompleted(exerciseId: string): boolean {
-    const progress = getAllProgress();
+export function isExerciseCompleted(progress: Map<string, ExerciseProgress>, exerciseId: string): boolean {
     return progress.get(exerciseId)?.completed ?? false;
 }
 
+// Entries saved before scheduling existed are treated as a first successful review
+export function getReviewSchedule(entry: ExerciseProgress): ReviewSchedule | undefined {
+    if (entry.review) return entry.review;
+    if (!entry.completed) return undefined;
+    return scheduleReview(undefined, DEFAULT_QUALITY, entry.lastAttempt ?? 0);
+}
+
+// Get completed exercises whose review is due, most overdue first
+export function getDueReviews(progress: Map<string, ExerciseProgress>, now: number = Date.now()): ExerciseProgress[] {
+    const due: Array<{ entry: ExerciseProgress; dueDate: number }> = [];
+
+    progress.forEach(entry => {
+        const schedule = getReviewSchedule(entry);
+        if (schedule && isReviewDue(schedule, now)) {
+            due.push({ entry, dueDate: schedule.dueDate });
+        }
+    });
+
+    return due
+        .sort((a, b) => a.dueDate - b.dueDate)
+        .map(d => d.entry);
+}
+
 // Get lesson progress
 export function getLessonProgress(
+    index: ProgressIndex,
     lessonPath: string,
     totalExercises: number
 ): LessonProgress {
-    const progress = getAllProgress();
-
-    // Filter to only exercises for this lesson
-    const lessonExercises = Array.from(progress.values())
-        .filter(p => p.lessonPath === lessonPath && p.completed);
+    const stats = getLessonStats(index, lessonPath);
 
     // Count all completed exercises for this lesson
     // Cap at totalExercises to prevent showing "7/6" if old exercises remain in storage
-    const completedExercises = Math.min(lessonExercises.length, totalExercises);
+    const completedExercises = Math.min(stats.completed, totalExercises);
 
     const percentage = totalExercises > 0 ? Math.round((completedExercises / totalExercises) * 100) : 0;
 
@@ -93,26 +181,24 @@ export function getLessonProgress(
         path: lessonPath,
         totalExercises,
         completedExercises,
-        percentage
+        percentage,
+        ...calculateAccuracy(stats)
     };
 }
 
 // Get folder progress
 export function getFolderProgress(
+    index: ProgressIndex,
     folderPath: string,
     lessons: Array<{ path: string; exerciseCount: number }>
 ): FolderProgress {
-    const progress = getAllProgress();
-
     let totalExercises = 0;
     let completedExercises = 0;
     let completedLessons = 0;
 
     for (const lesson of lessons) {
         totalExercises += lesson.exerciseCount;
-        const lessonCompleted = Array.from(progress.values())
-            .filter(p => p.lessonPath === lesson.path && p.completed)
-            .length;
+        const lessonCompleted = getLessonStats(index, lesson.path).completed;
 
         completedExercises += lessonCompleted;
 
@@ -135,10 +221,9 @@ export function getFolderProgress(
 
 // Get course progress
 export function getCourseProgress(
+    index: ProgressIndex,
     allLessons: Array<{ path: string; exerciseCount: number; folder: string }>
 ): CourseProgress {
-    const progress = getAllProgress();
-
     const folders = new Set(allLessons.map(l => l.folder));
     let totalExercises = 0;
     let completedExercises = 0;
@@ -146,9 +231,7 @@ export function getCourseProgress(
 
     for (const lesson of allLessons) {
         totalExercises += lesson.exerciseCount;
-        const lessonCompleted = Array.from(progress.values())
-            .filter(p => p.lessonPath === lesson.path && p.completed)
-            .length;
+        const lessonCompleted = getLessonStats(index, lesson.path).completed;
 
         completedExercises += lessonCompleted;
 
@@ -168,12 +251,3 @@ export function getCourseProgress(
         percentage
     };
 }
-
-// Reset all progress
-export function resetAllProgress(): void {
-    try {
-        localStorage.removeItem(STORAGE_KEY);
-    } catch (error) {
-        console.error('Error resetting progress:', error);
-    }
-}
@@ -0,0 +1,235 @@
+// Versioned export/import of learner progress and settings
+
+import { getModifiedAt, nextModifiedAt, type ExerciseProgress, type ExerciseAttempt, type WritingSubmission } from './progressStorage';
+import type { ReviewSchedule } from './spacedRepetition';
+import type { LanguageSettings } from '../context/SettingsContext';
+
+export const PROGRESS_EXPORT_FORMAT = 'yazula-progress';
+export const PROGRESS_EXPORT_VERSION = 1;
+
+export interface ExportedSettings {
+    showHints?: boolean;
+    languageSettings?: LanguageSettings;
+}
+
+export interface ProgressExport {
+    format: typeof PROGRESS_EXPORT_FORMAT;
+    version: number;
+    exportedAt: number;
+    profileName?: string;
+    progress: Record<string, ExerciseProgress>;
+    settings?: ExportedSettings;
+}
+
+export interface ImportPreview {
+    added: ExerciseProgress[];
+    updated: ExerciseProgress[];
+    unchanged: number;
+    changedSettings: string[];
+    merged: Map<string, ExerciseProgress>;
+}
+
+export function createProgressExport(
+    progress: Map<string, ExerciseProgress>,
+    settings: ExportedSettings,
+    profileName?: string
+): ProgressExport {
+    return {
+        format: PROGRESS_EXPORT_FORMAT,
+        version: PROGRESS_EXPORT_VERSION,
+        exportedAt: Date.now(),
+        profileName,
+        progress: Object.fromEntries(progress),
+        settings
+    };
+}
+
+export function getExportFileName(profileName?: string, date: Date = new Date()): string {
+    const slug = profileName?.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return `progress-${slug ? `${slug}-` : ''}${date.toISOString().slice(0, 10)}.json`;
+}
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalNumber = (value: unknown) => value === undefined || typeof value === 'number';
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+function validateSubmission(value: unknown, path: string): WritingSubmission {
+    if (!isObject(value)) throw new Error(`${path} must be an object`);
+    if (typeof value.text !== 'string') throw new Error(`${path}.text must be a string`);
+    if (typeof value.wordCount !== 'number') throw new Error(`${path}.wordCount must be a number`);
+    for (const key of ['checked', 'checklist']) {
+        if (!isStringList(value[key])) throw new Error(`${path}.${key} must be a list of strings`);
+    }
+    return value as unknown as WritingSubmission;
+}
+
+function validateAttempt(value: unknown, path: string): ExerciseAttempt {
+    if (!isObject(value)) throw new Error(`${path} must be an object`);
+    for (const key of ['timestamp', 'duration', 'wrongSubmissions', 'hintsUsed']) {
+        if (typeof value[key] !== 'number') throw new Error(`${path}.${key} must be a number`);
+    }
+    if (!Array.isArray(value.wrongAnswers) || value.wrongAnswers.some(a => typeof a !== 'string')) {
+        throw new Error(`${path}.wrongAnswers must be a list of strings`);
+    }
+    if (typeof value.completed !== 'boolean') throw new Error(`${path}.completed must be a boolean`);
+    if (value.submission !== undefined) validateSubmission(value.submission, `${path}.submission`);
+    return value as unknown as ExerciseAttempt;
+}
+
+function validateReview(value: unknown, path: string): ReviewSchedule {
+    if (!isObject(value)) throw new Error(`${path} must be an object`);
+    for (const key of ['easeFactor', 'interval', 'repetitions', 'dueDate', 'lastQuality']) {
+        if (typeof value[key] !== 'number') throw new Error(`${path}.${key} must be a number`);
+    }
+    return value as unknown as ReviewSchedule;
+}
+
+function validateEntry(key: string, value: unknown): ExerciseProgress {
+    const path = `progress["${key}"]`;
+    if (!isObject(value)) throw new Error(`${path} must be an object`);
+    if (value.exerciseId !== key) throw new Error(`${path}.exerciseId must match its key`);
+    if (typeof value.lessonPath !== 'string') throw new Error(`${path}.lessonPath must be a string`);
+    if (typeof value.completed !== 'boolean') throw new Error(`${path}.completed must be a boolean`);
+    if (!isOptionalNumber(value.lastAttempt)) throw new Error(`${path}.lastAttempt must be a number`);
+    if (!isOptionalNumber(value.modifiedAt)) throw new Error(`${path}.modifiedAt must be a number`);
+    if (value.review !== undefined) validateReview(value.review, `${path}.review`);
+    if (value.attempts !== undefined) {
+        if (!Array.isArray(value.attempts)) throw new Error(`${path}.attempts must be a list`);
+        value.attempts.forEach((attempt, i) => validateAttempt(attempt, `${path}.attempts[${i}]`));
+    }
+    return value as unknown as ExerciseProgress;
+}
+
+function validateSettings(value: unknown): ExportedSettings {
+    if (!isObject(value)) throw new Error('settings must be an object');
+    if (value.showHints !== undefined && typeof value.showHints !== 'boolean') {
+        throw new Error('settings.showHints must be a boolean');
+    }
+    if (value.languageSettings !== undefined) {
+        const lang = value.languageSettings;
+        if (!isObject(lang) || typeof lang.learningLang !== 'string' || typeof lang.translationLang !== 'string' || !isObject(lang.learningVoices)) {
+            throw new Error('settings.languageSettings is malformed');
+        }
+    }
+    return value as ExportedSettings;
+}
+
+/**
+ * Parse and validate an exported progress file.
+ * Throws an Error describing the first problem found.
+ */
+export function parseProgressExport(text: string): ProgressExport {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON');
+    }
+
+    if (!isObject(data) || data.format !== PROGRESS_EXPORT_FORMAT) {
+        throw new Error('This is not a progress export file');
+    }
+    if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+        throw new Error('The export file has an invalid version');
+    }
+    if (data.version > PROGRESS_EXPORT_VERSION) {
+        throw new Error(`The export file was created by a newer version (v${data.version}) of the app`);
+    }
+    if (typeof data.exportedAt !== 'number') throw new Error('exportedAt must be a number');
+    if (data.profileName !== undefined && typeof data.profileName !== 'string') throw new Error('profileName must be a string');
+    if (!isObject(data.progress)) throw new Error('progress must be an object');
+
+    const progress: Record<string, ExerciseProgress> = {};
+    Object.entries(data.progress).forEach(([key, value]) => {
+        progress[key] = validateEntry(key, value);
+    });
+
+    return {
+        format: PROGRESS_EXPORT_FORMAT,
+        version: data.version,
+        exportedAt: data.exportedAt,
+        profileName: data.profileName,
+        progress,
+        settings: data.settings === undefined ? undefined : validateSettings(data.settings)
+    };
+}
+
+// --- Merge ---
+
+// Attempt histories from both sides are combined, keyed by start time
+function mergeAttempts(a: ExerciseAttempt[] = [], b: ExerciseAttempt[] = []): ExerciseAttempt[] | undefined {
+    const byTimestamp = new Map<number, ExerciseAttempt>();
+    [...a, ...b].forEach(attempt => byTimestamp.set(attempt.timestamp, attempt));
+    if (byTimestamp.size === 0) return undefined;
+    return Array.from(byTimestamp.values()).sort((x, y) => x.timestamp - y.timestamp);
+}
+
+/**
+ * Merge two progress entries for the same exercise.
+ * The entry with the latest modifiedAt wins, completion is never lost and
+ * attempt histories are combined. Returns `current` itself when nothing
+ * changed; otherwise the result counts as a new write for sync.
+ */
+export function mergeProgressEntry(current: ExerciseProgress, incoming: ExerciseProgress): ExerciseProgress {
+    const incomingIsNewer = getModifiedAt(incoming) > getModifiedAt(current);
+    const winner = incomingIsNewer ? incoming : current;
+    const attempts = mergeAttempts(current.attempts, incoming.attempts);
+
+    const merged: ExerciseProgress = {
+        ...winner,
+        completed: current.completed || incoming.completed
+    };
+    if (attempts) merged.attempts = attempts;
+    if (JSON.stringify(merged) === JSON.stringify(current)) return current;
+    merged.modifiedAt = nextModifiedAt(winner);
+    return merged;
+}
+
+export function mergeProgress(
+    current: Map<string, ExerciseProgress>,
+    incoming: Record<string, ExerciseProgress>
+): Map<string, ExerciseProgress> {
+    const merged = new Map(current);
+    Object.values(incoming).forEach(entry => {
+        const existing = merged.get(entry.exerciseId);
+        merged.set(entry.exerciseId, existing ? mergeProgressEntry(existing, entry) : entry);
+    });
+    return merged;
+}
+
+/**
+ * Describe what importing the given export would change, without applying it.
+ */
+export function previewProgressImport(
+    current: Map<string, ExerciseProgress>,
+    incoming: ProgressExport,
+    currentSettings: ExportedSettings
+): ImportPreview {
+    const merged = mergeProgress(current, incoming.progress);
+    const added: ExerciseProgress[] = [];
+    const updated: ExerciseProgress[] = [];
+    let unchanged = 0;
+
+    merged.forEach((entry, id) => {
+        const existing = current.get(id);
+        if (!existing) added.push(entry);
+        else if (JSON.stringify(existing) !== JSON.stringify(entry)) updated.push(entry);
+        else unchanged++;
+    });
+
+    const changedSettings: string[] = [];
+    const settings = incoming.settings;
+    if (settings?.showHints !== undefined && settings.showHints !== currentSettings.showHints) {
+        changedSettings.push('Show Hints');
+    }
+    if (settings?.languageSettings && JSON.stringify(settings.languageSettings) !== JSON.stringify(currentSettings.languageSettings)) {
+        changedSettings.push('Language Settings');
+    }
+
+    return { added, updated, unchanged, changedSettings, merged };
+}
@@ -1,3 +1,5 @@
+import { parseLiteral } from './literalParser';
+
 export const normalizeProps = (props: any): any => {
     const newProps: any = { ...props };
 
@@ -18,27 +20,13 @@ export const normalizeProps = (props: any): any => {
 
         // Handle JSON-like arrays/objects if passed as string
         // We target specific keys to avoid false positives (like FillBlanks text starting with [)
-        const jsonKeys = ['items', 'pairs', 'groups', 'options', 'alternatives'];
+        const jsonKeys = ['items', 'pairs', 'groups', 'slots', 'options', 'alternatives'];
         if (jsonKeys.includes(key) && typeof value === 'string') {
+            // Accepts JSON as well as the single-quoted, unquoted-key form authors type by hand
             try {
-                // Replace single quotes with double quotes if needed for JSON.parse
-                // But be careful not to break actual content.
-                // React usually passes double quoted JSON if it was stringified.
-                // If it came from HTML attribute, it might be: items="['a', 'b']" -> value="['a', 'b']"
-                // JSON.parse requires double quotes for strings: '["a", "b"]' -> valid. "['a', 'b']" -> invalid.
-
-                // Let's try to parse as is first
-                newProps[key] = JSON.parse(value);
-            } catch (e) {
-                // If simple parse fails, it might be single quoted array from manual input?
-                // e.g. ['a', 'b']
-                try {
-                    // Risky replacement of ' with "
-                    const fixed = value.replace(/'/g, '"');
-                    newProps[key] = JSON.parse(fixed);
-                } catch (e2) {
-                    // console.warn(`Failed to parse prop ${key}:`, value);
-                }
+                newProps[key] = parseLiteral(value);
+            } catch {
+                // Not a literal, keep the string
             }
         }
     });
@@ -0,0 +1,88 @@
+// SM-2 style spaced repetition scheduling for completed exercises
+
+export interface ReviewSchedule {
+    easeFactor: number;
+    interval: number; // Days until the next review
+    repetitions: number; // Consecutive successful reviews
+    dueDate: number; // Timestamp (ms) when the exercise is due again
+    lastQuality: number;
+}
+
+// Quality grades follow SM-2: 0 = total blackout ... 5 = perfect recall.
+// Anything below 3 counts as a lapse and restarts the interval sequence.
+export const MIN_QUALITY = 0;
+export const MAX_QUALITY = 5;
+export const DEFAULT_QUALITY = 4;
+
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const clampQuality = (quality: number): number =>
+    Math.min(MAX_QUALITY, Math.max(MIN_QUALITY, Math.round(quality)));
+
+/**
+ * Compute the next review schedule after an exercise was answered.
+ * @param previous - Current schedule, or undefined for the first review
+ * @param quality - Recall quality from 0 to 5
+ * @param now - Timestamp of the review
+ */
+export function scheduleReview(
+    previous: ReviewSchedule | undefined,
+    quality: number,
+    now: number = Date.now()
+): ReviewSchedule {
+    const q = clampQuality(quality);
+    const prevEase = previous?.easeFactor ?? DEFAULT_EASE_FACTOR;
+    const prevRepetitions = previous?.repetitions ?? 0;
+    const prevInterval = previous?.interval ?? 0;
+
+    let repetitions: number;
+    let interval: number;
+
+    if (q < 3) {
+        repetitions = 0;
+        interval = 1;
+    } else {
+        repetitions = prevRepetitions + 1;
+        if (repetitions === 1) interval = 1;
+        else if (repetitions === 2) interval = 6;
+        else interval = Math.round(prevInterval * prevEase);
+    }
+
+    const easeFactor = Math.max(
+        MIN_EASE_FACTOR,
+        prevEase + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+    );
+
+    return {
+        easeFactor,
+        interval,
+        repetitions,
+        dueDate: now + interval * DAY_MS,
+        lastQuality: q
+    };
+}
+
+// Completing an exercise again before it is due (e.g. redoing a lesson) should not
+// inflate the interval, but a lapse always resets it.
+export function shouldReschedule(previous: ReviewSchedule | undefined, quality: number, now: number = Date.now()): boolean {
+    if (!previous) return true;
+    return now >= previous.dueDate || clampQuality(quality) < 3;
+}
+
+export function isReviewDue(schedule: ReviewSchedule, now: number = Date.now()): boolean {
+    return schedule.dueDate <= now;
+}
+
+/**
+ * Map the number of wrong submissions (and whether the answer was revealed)
+ * to an SM-2 quality grade.
+ */
+export function qualityFromMistakes(mistakes: number, revealedAnswer = false): number {
+    if (revealedAnswer) return 1;
+    if (mistakes <= 0) return 5;
+    if (mistakes === 1) return 4;
+    if (mistakes === 2) return 3;
+    return 2;
+}
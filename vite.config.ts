@@ -4,6 +4,7 @@ import mdx from '@mdx-js/rollup'
 import remarkGfm from 'remark-gfm';
 import remarkFrontmatter from 'remark-frontmatter';
 import remarkMdxFrontmatter from 'remark-mdx-frontmatter';
+import { aiGatewayPlugin } from './scripts/ai-gateway.js';
 
 function getRepoName() {
   if (process.env.GITHUB_REPOSITORY) {
@@ -27,7 +28,9 @@ export default defineConfig(({ mode }) => {
         remarkPlugins: [remarkGfm, remarkFrontmatter, remarkMdxFrontmatter],
         providerImportSource: "@mdx-js/react"
       }),
-      react()
+      react(),
+      // Serves /api/ai, keys stay in .ai-gateway/config.json on this machine
+      aiGatewayPlugin()
     ],
     proxy: {
       '/api': {